@@ -76,4 +76,224 @@ describe('parseCommand: headless/headed flags (gh #1)', () => {
     expect(String(save.args.savePath)).toMatch(/out\.txt$/);
     expect(String(save.args.savePath).startsWith('/')).toBe(true);
   });
+
+  it('resolves --profile-dir to an absolute userDataDir', () => {
+    const p = parseCommand(['session', 'create', 'x', '--profile-dir', 'profiles/work']);
+    expect(p.spec.tool).toBe('session_create');
+    expect(String(p.args.userDataDir).startsWith('/')).toBe(true);
+    expect(String(p.args.userDataDir)).toMatch(/profiles\/work$/);
+  });
+
+  it('parses attach endpoints for session create', () => {
+    const cdp = parseCommand(['session', 'create', 'human', '--cdp-url', 'http://localhost:9222']);
+    expect(cdp.args).toMatchObject({ name: 'human', cdpUrl: 'http://localhost:9222' });
+
+    const ws = parseCommand(['session', 'create', 'harness', '-b', 'firefox', '--ws-endpoint', 'ws://127.0.0.1:4000/abc']);
+    expect(ws.args).toMatchObject({ name: 'harness', type: 'firefox', wsEndpoint: 'ws://127.0.0.1:4000/abc' });
+  });
+
+  it('parses emulation flags for session create and storage load', () => {
+    const p = parseCommand([
+      'session', 'create', 'phone',
+      '--device', 'iPhone 13',
+      '--locale', 'de-DE',
+      '--timezone', 'Europe/Berlin',
+      '--color-scheme', 'dark',
+      '--viewport', '390x844',
+      '--mobile',
+    ]);
+    expect(p.args).toMatchObject({
+      device: 'iPhone 13',
+      locale: 'de-DE',
+      timezoneId: 'Europe/Berlin',
+      colorScheme: 'dark',
+      viewport: { width: 390, height: 844 },
+      isMobile: true,
+    });
+
+    const load = parseCommand(['storage', 'load', 's', 'example.com', '--reduced-motion', 'reduce', '--pooled']);
+    expect(load.args.reducedMotion).toBe('reduce');
+    expect(load.args.pooled).toBe(true);
+  });
+
+  it('rejects a malformed --viewport', () => {
+    expect(() => parseCommand(['session', 'create', 'x', '--viewport', 'wide'])).toThrow('--viewport expects WxH');
+  });
+
+  it('parses session fork source and target', () => {
+    const p = parseCommand(['session', 'fork', 'main', 'branch']);
+    expect(p.spec.tool).toBe('session_fork');
+    expect(p.args).toEqual({ source: 'main', name: 'branch' });
+  });
+
+  it('parses lease flags and session touch', () => {
+    const create = parseCommand(['session', 'create', 'x', '--ttl', '600000', '--idle-timeout', '60000']);
+    expect(create.args).toMatchObject({ ttlMs: 600000, idleTimeoutMs: 60000 });
+
+    const touch = parseCommand(['session', 'touch', 'x']);
+    expect(touch.spec.tool).toBe('session_touch');
+    expect(touch.args).toEqual({ name: 'x' });
+  });
+
+  it('parses --auto-recover', () => {
+    const p = parseCommand(['session', 'create', 'x', '--auto-recover']);
+    expect(p.args).toMatchObject({ name: 'x', autoRecover: true });
+  });
+
+  it('parses session labels and list filters', () => {
+    const create = parseCommand(['session', 'create', 'x', '--label', 'env=staging', '--label', 'q=a=b', '--description', 'checkout run']);
+    expect(create.args).toMatchObject({ labels: { env: 'staging', q: 'a=b' }, description: 'checkout run' });
+
+    const list = parseCommand(['session', 'list', '--label', 'env=staging', '-b', 'firefox', '--url', 'example.com', '--older-than', '60000']);
+    expect(list.args).toEqual({ labels: { env: 'staging' }, type: 'firefox', url: 'example.com', olderThanMs: 60000 });
+
+    expect(() => parseCommand(['session', 'list', '--label', 'env'])).toThrow('--label expects K=V');
+  });
+
+  it('parses proxy, credentials and header flags', () => {
+    const p = parseCommand([
+      'session', 'create', 'x', '--proxy', 'http://proxy:3128', '--proxy-bypass', '.internal',
+      '--http-credentials', 'qa:p:w', '--header', 'X-Env=staging', '--ignore-https-errors',
+    ]);
+    expect(p.args).toEqual({
+      name: 'x',
+      proxy: { server: 'http://proxy:3128', bypass: '.internal', username: undefined, password: undefined },
+      httpCredentials: { username: 'qa', password: 'p:w' },
+      extraHTTPHeaders: { 'X-Env': 'staging' },
+      ignoreHTTPSErrors: true,
+    });
+    expect(() => parseCommand(['session', 'create', 'x', '--proxy-username', 'u'])).toThrow('need --proxy');
+
+    const set = parseCommand(['headers', '-s', 'x', '--header', 'Authorization=Bearer a=b']);
+    expect(set.spec.tool).toBe('browser_set_headers');
+    expect(set.args).toEqual({ session: 'x', headers: { Authorization: 'Bearer a=b' } });
+    expect(parseCommand(['headers', '-s', 'x']).args).toEqual({ session: 'x', headers: {} });
+  });
+
+  it('parses init-script commands and --init-script', () => {
+    const create = parseCommand(['session', 'create', 'x', '--init-script', 'window.a = 1', '--init-script', 'window.b = 2']);
+    expect(create.args).toMatchObject({ initScripts: ['window.a = 1', 'window.b = 2'] });
+
+    const add = parseCommand(['init-script', 'add', '-s', 'x', 'window.flag = true']);
+    expect(add.spec.tool).toBe('browser_add_init_script');
+    expect(add.args).toEqual({ session: 'x', script: 'window.flag = true' });
+
+    expect(parseCommand(['init-script', 'list', '-s', 'x']).spec.tool).toBe('browser_list_init_scripts');
+    expect(parseCommand(['init-script', 'remove', '-s', 'x', 'i2']).args).toEqual({ session: 'x', id: 'i2' });
+  });
+
+  it('parses tab ids and wait_new', () => {
+    expect(parseCommand(['tabs', 'switch', '-s', 'x', '--id', 't2']).args).toEqual({ session: 'x', action: 'switch', id: 't2' });
+    const wait = parseCommand(['tabs', 'wait_new', '-s', 'x', '--switch', '--timeout', '5000']);
+    expect(wait.spec.tool).toBe('browser_tabs');
+    expect(wait.args).toEqual({ session: 'x', action: 'wait_new', switch: true, timeout: 5000 });
+  });
+
+  it('resolves --extension dirs and parses the extensions command', () => {
+    const create = parseCommand(['session', 'create', 'x', '--extension', 'exts/one', '--extension', '/opt/two']);
+    const dirs = create.args.extensions as string[];
+    expect(dirs[0].startsWith('/')).toBe(true);
+    expect(dirs[0]).toMatch(/exts\/one$/);
+    expect(dirs[1]).toBe('/opt/two');
+
+    const open = parseCommand(['extensions', 'popup', '-s', 'x', '--id', 'abc']);
+    expect(open.spec.tool).toBe('browser_extensions');
+    expect(open.args).toEqual({ session: 'x', action: 'popup', id: 'abc' });
+  });
+
+  it('parses permissions and geolocation', () => {
+    const create = parseCommand(['session', 'create', 'x', '--permission', 'geolocation,notifications', '--permission', 'camera', '--geolocation', '52.52,13.4']);
+    expect(create.args).toMatchObject({ permissions: ['geolocation', 'notifications', 'camera'], geolocation: { latitude: 52.52, longitude: 13.4 } });
+    expect(() => parseCommand(['session', 'create', 'x', '--geolocation', 'north'])).toThrow('--geolocation expects lat,lng[,accuracy]');
+
+    const grant = parseCommand(['permissions', 'grant', 'geolocation', '-s', 'x', '--origin', 'https://maps.example.com']);
+    expect(grant.spec.tool).toBe('browser_permissions');
+    expect(grant.args).toEqual({ session: 'x', action: 'grant', permissions: ['geolocation'], origin: 'https://maps.example.com' });
+
+    const geo = parseCommand(['geolocation', '48.85', '2.35', '-s', 'x', '--accuracy', '10']);
+    expect(geo.args).toEqual({ session: 'x', latitude: 48.85, longitude: 2.35, accuracy: 10 });
+  });
+
+  it('parses network-conditions presets and overrides', () => {
+    const p = parseCommand(['network-conditions', 'slow-3g', '-s', 'x', '--latency', '500', '--cpu', '4']);
+    expect(p.spec.tool).toBe('browser_network_conditions');
+    expect(p.args).toEqual({ session: 'x', preset: 'slow-3g', latencyMs: 500, cpuThrottlingRate: 4 });
+    expect(parseCommand(['network-conditions', '-s', 'x', '--reset']).args).toEqual({ session: 'x', reset: true });
+  });
+
+  it('parses tap, swipe and pinch', () => {
+    expect(parseCommand(['tap', '@e3', '-s', 'x', '--frame', 'iframe#app']).args).toEqual({ session: 'x', selector: '@e3', frame: ['iframe#app'] });
+    const swipe = parseCommand(['swipe', 'left', '.carousel', '-s', 'x', '--distance', '250', '--duration', '500']);
+    expect(swipe.spec.tool).toBe('browser_swipe');
+    expect(swipe.args).toEqual({ session: 'x', direction: 'left', selector: '.carousel', distance: 250, durationMs: 500 });
+    expect(parseCommand(['pinch', '0.5', '-s', 'x']).args).toEqual({ session: 'x', scale: 0.5 });
+  });
+
+  it('parses route, unroute and routes', () => {
+    const mock = parseCommand(['route', '**/api/*', 'fulfill', '-s', 'x', '--method', 'POST', '--status', '201', '--header', 'X-Mock=1', '--body-file', 'fixtures/items.json']);
+    expect(mock.spec.tool).toBe('browser_route');
+    expect(mock.args).toMatchObject({ session: 'x', url: '**/api/*', action: 'fulfill', method: 'POST', status: 201, headers: { 'X-Mock': '1' } });
+    expect(mock.args.bodyFile).toMatch(/^\/.*fixtures\/items\.json$/);
+
+    const rewrite = parseCommand(['route', '**', 'continue', '-s', 'x', '--set-header', 'Authorization=Bearer a=b', '--delay', '300']);
+    expect(rewrite.args).toEqual({ session: 'x', url: '**', action: 'continue', setHeaders: { Authorization: 'Bearer a=b' }, delayMs: 300 });
+    expect(() => parseCommand(['route', '**', 'continue', '-s', 'x', '--set-header', 'nope'])).toThrow('--set-header expects Name=value');
+
+    expect(parseCommand(['unroute', '-s', 'x', '--all']).args).toEqual({ session: 'x', all: true });
+    expect(parseCommand(['routes', '-s', 'x']).spec.tool).toBe('browser_routes');
+  });
+
+  it('parses HAR recording and replay', () => {
+    const start = parseCommand(['har', 'start', 'out/flow.har', '-s', 'x', '--content', 'omit', '--url', '**/api/**']);
+    expect(start.spec.tool).toBe('browser_har_start');
+    expect(start.args).toMatchObject({ session: 'x', content: 'omit', urlFilter: '**/api/**' });
+    expect(start.args.path).toMatch(/^\/.*out\/flow\.har$/);
+    expect(parseCommand(['har', 'stop', '-s', 'x']).spec.tool).toBe('browser_har_stop');
+
+    const replay = parseCommand(['route-from-har', '/tmp/flow.har', '-s', 'x', '--not-found', 'fallback']);
+    expect(replay.args).toEqual({ session: 'x', path: '/tmp/flow.har', notFound: 'fallback' });
+    expect(parseCommand(['session', 'create', 'x', '--replay-har', 'flow.har']).args.replayHar).toMatch(/^\/.*flow\.har$/);
+  });
+
+  it('parses network show alongside network', () => {
+    const show = parseCommand(['network', 'show', 'n12', '-s', 'x', '--max-bytes', '2048']);
+    expect(show.spec.tool).toBe('browser_network_request');
+    expect(show.args).toEqual({ session: 'x', id: 'n12', maxBytes: 2048 });
+    expect(parseCommand(['network', '-s', 'x', '--tab', 't2']).spec.tool).toBe('browser_network_requests');
+  });
+
+  it('parses console and network log filters', () => {
+    const con = parseCommand(['console', '-s', 'x', '--level', 'error,warning', '--pattern', 'fail', '--after-seq', '42']);
+    expect(con.args).toEqual({ session: 'x', levels: ['error', 'warning'], pattern: 'fail', afterSeq: 42 });
+
+    const net = parseCommand(['network', '-s', 'x', '--status', '400-599', '--type', 'fetch,xhr', '--method', 'POST', '--since', '2026-01-02T03:04:05Z']);
+    expect(net.args).toEqual({
+      session: 'x', statusMin: 400, statusMax: 599, resourceTypes: ['fetch', 'xhr'], method: 'POST', since: Date.parse('2026-01-02T03:04:05Z'),
+    });
+    expect(parseCommand(['network', '-s', 'x', '--status', '404']).args).toMatchObject({ statusMin: 404, statusMax: 404 });
+    expect(() => parseCommand(['network', '-s', 'x', '--status', '4xx'])).toThrow('--status expects a status or range');
+  });
+
+  it('parses wait request/response alongside wait', () => {
+    const armed = parseCommand(['wait', 'response', '**/api/orders', '-s', 'x', '--method', 'POST', '--status', '201', '--arm']);
+    expect(armed.spec.tool).toBe('browser_wait_for_response');
+    expect(armed.args).toEqual({ session: 'x', url: '**/api/orders', method: 'POST', status: 201, arm: true });
+    expect(parseCommand(['wait', 'response', '-s', 'x', '--wait-id', 'w1', '--body']).args).toEqual({ session: 'x', waitId: 'w1', body: true });
+    expect(parseCommand(['wait', 'request', '/api/', '-s', 'x', '--regex']).spec.tool).toBe('browser_wait_for_request');
+    expect(parseCommand(['wait', '#done', '-s', 'x']).spec.tool).toBe('browser_wait_for');
+  });
+
+  it('parses websockets filters', () => {
+    const p = parseCommand(['websockets', '-s', 'x', '--connection', 'ws2', '--type', 'sent,received', '--pattern', 'price', '--after-seq', '10']);
+    expect(p.spec.tool).toBe('browser_websockets');
+    expect(p.args).toEqual({ session: 'x', connectionId: 'ws2', types: ['sent', 'received'], pattern: 'price', afterSeq: 10 });
+  });
+
+  it('parses block flags, and folds session create --block-* into blockResources', () => {
+    const p = parseCommand(['block', '-s', 'x', '--type', 'image,font', '--url', '**/ads/**', '--trackers']);
+    expect(p.spec.tool).toBe('browser_block');
+    expect(p.args).toEqual({ session: 'x', resourceTypes: ['image', 'font'], urls: ['**/ads/**'], trackers: true });
+    const c = parseCommand(['session', 'create', 'lean', '--block-type', 'image,media', '--block-trackers']);
+    expect(c.args.blockResources).toEqual({ resourceTypes: ['image', 'media'], urls: undefined, trackers: true });
+  });
 });
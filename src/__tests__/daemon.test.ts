@@ -9,13 +9,13 @@ import { LineDecoder, encodeMessage, type DaemonResponse } from '../daemon/proto
 const DAEMON = path.resolve('dist/daemon/server.js');
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
-/** Spawn a daemon in an isolated dir; returns helpers bound to it. */
-async function startDaemon(idleMs: string) {
-  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'bp-daemon-'));
+/** Spawn a daemon in an isolated dir (or `reuseDir`, to restart one); returns helpers bound to it. */
+async function startDaemon(idleMs: string, extraEnv: Record<string, string> = {}, reuseDir?: string) {
+  const dir = reuseDir ?? (await fs.mkdtemp(path.join(os.tmpdir(), 'bp-daemon-')));
   const sock = path.join(dir, 'daemon.sock');
   const pidPath = path.join(dir, 'daemon.pid');
   const child = spawn(process.execPath, [DAEMON], {
-    env: { ...process.env, BROWSERPLEX_DIR: dir, BROWSERPLEX_IDLE_MS: idleMs },
+    env: { ...process.env, BROWSERPLEX_DIR: dir, BROWSERPLEX_IDLE_MS: idleMs, ...extraEnv },
     stdio: 'ignore',
   });
   for (let i = 0; i < 50 && !(await fs.access(sock).then(() => true).catch(() => false)); i++) await sleep(100);
@@ -131,4 +131,52 @@ describe('daemon idle-exit', () => {
     expect(alive(pid)).toBe(false);
     await fs.rm(d.dir, { recursive: true, force: true });
   }, 30_000);
+
+  it('still idle-exits with a warm pool, and reports it in __daemon_status', async () => {
+    const d = await startDaemon('3000', { BROWSERPLEX_WARM_POOL: '1' });
+    const pid = await readPid(d.pidPath);
+    const c = connect(d.sock);
+    await c.ready;
+    c.send(1, '__daemon_status');
+    const data = (await c.wait(1))?.data as { warmPool: { size: number; hits: number; misses: number } };
+    expect(data.warmPool).toMatchObject({ size: 1, hits: 0, misses: 0 });
+    c.socket.end();
+    await sleep(5000); // > idle + teardown once the status connection has closed
+    expect(alive(pid)).toBe(false);
+    await fs.rm(d.dir, { recursive: true, force: true });
+  }, 30_000);
+});
+
+describe('daemon session persistence', () => {
+  it('restores a session saved by the previous daemon on first use', async () => {
+    const env = { BROWSERPLEX_PERSIST: '1' };
+    const first = await startDaemon('0', env);
+    let c = connect(first.sock);
+    await c.ready;
+    c.send(1, 'session_create', { name: 'kept', type: 'chromium', labels: { env: 'ci' } });
+    expect((await c.wait(1))?.ok).toBe(true);
+    c.send(2, 'browser_navigate', { session: 'kept', url: 'data:text/html,<title>kept</title>' });
+    expect((await c.wait(2))?.ok).toBe(true);
+    c.socket.end();
+    const firstPid = await readPid(first.pidPath);
+    process.kill(firstPid, 'SIGTERM');
+    for (let i = 0; i < 100 && alive(firstPid); i++) await sleep(100);
+    const manifest = JSON.parse(await fs.readFile(path.join(first.dir, 'daemon-sessions.json'), 'utf8'));
+    expect(manifest.sessions.map((s: { name: string }) => s.name)).toEqual(['kept']);
+
+    const second = await startDaemon('0', env, first.dir);
+    c = connect(second.sock);
+    await c.ready;
+    c.send(3, 'session_list');
+    expect((await c.wait(3))?.text).toContain('dormant');
+    c.send(4, 'browser_evaluate', { session: 'kept', script: 'document.title' });
+    const restored = await c.wait(4);
+    expect(restored?.ok).toBe(true);
+    expect(restored?.text).toContain('kept');
+    expect(restored?.text).toContain('restored from a previous daemon run');
+    c.socket.end();
+    process.kill(await readPid(second.pidPath), 'SIGTERM');
+    await sleep(1000);
+    await fs.rm(first.dir, { recursive: true, force: true });
+  }, 60_000);
 });
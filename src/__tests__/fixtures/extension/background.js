@@ -0,0 +1 @@
+chrome.runtime.onInstalled.addListener(() => {});
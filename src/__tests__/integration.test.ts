@@ -362,6 +362,34 @@ describe('MCP Server Integration', () => {
       expect(getTextContent(result)).toContain('test message from browserplex');
     });
 
+    it('filters by level and pattern and reads only new messages with afterSeq', async () => {
+      await toolCall('browser_evaluate', {
+        session: 'integration-test',
+        script: 'console.error("checkout failed"); console.warn("slow checkout"); console.log("noise")',
+      });
+
+      const errors = getTextContent(await toolCall('browser_console_messages', {
+        session: 'integration-test',
+        levels: ['error', 'warning'],
+        pattern: 'checkout',
+      }));
+      expect(errors).toContain('[error] checkout failed');
+      expect(errors).toContain('[warning] slow checkout');
+      expect(errors).not.toContain('noise');
+
+      const last = Number(/last seq (\d+)/.exec(errors)?.[1]);
+      await toolCall('browser_evaluate', {
+        session: 'integration-test',
+        script: 'console.error("retry failed")',
+      });
+      const fresh = getTextContent(await toolCall('browser_console_messages', {
+        session: 'integration-test',
+        afterSeq: last,
+      }));
+      expect(fresh).toContain('Console messages (1,');
+      expect(fresh).toContain('retry failed');
+    });
+
     it('clears console messages when requested', async () => {
       await toolCall('browser_console_messages', {
         session: 'integration-test',
@@ -392,6 +420,23 @@ describe('MCP Server Integration', () => {
       expect(getTextContent(result)).toContain('GET');
     });
 
+    it('shows one request with its headers and a capped response body', async () => {
+      const list = getTextContent(await toolCall('browser_network_requests', {
+        session: 'integration-test',
+      }));
+      const id = /^(n\d+) \S+ GET https:\/\/example\.com\/ /m.exec(list)?.[1];
+      expect(id).toBeDefined();
+
+      const result = await toolCall('browser_network_request', {
+        session: 'integration-test',
+        id,
+        maxBytes: 100,
+      });
+
+      expect(getTextContent(result)).toContain('Response headers:');
+      expect(getTextContent(result)).toMatch(/Response body \(first 100 of \d+ bytes\)/);
+    });
+
     it('clears network requests when requested', async () => {
       await toolCall('browser_network_requests', {
         session: 'integration-test',
@@ -406,6 +451,64 @@ describe('MCP Server Integration', () => {
     });
   });
 
+  describe('Network Waits', () => {
+    it('arms a response wait before the request and collects it with the JSON body', async () => {
+      await toolCall('browser_route', {
+        session: 'integration-test',
+        url: '**/api/orders',
+        action: 'fulfill',
+        status: 201,
+        contentType: 'application/json',
+        headers: { 'Access-Control-Allow-Origin': '*' },
+        body: '{"id":7}',
+      });
+      const armed = getTextContent(await toolCall('browser_wait_for_response', {
+        session: 'integration-test',
+        url: '**/api/orders',
+        method: 'POST',
+        arm: true,
+      }));
+      const waitId = /Armed response wait (w\d+)/.exec(armed)?.[1];
+      expect(waitId).toBeDefined();
+
+      await toolCall('browser_evaluate', {
+        session: 'integration-test',
+        script: 'fetch("https://example.com/api/orders", { method: "POST", body: "{}" }).then(r => r.status)',
+      });
+      const result = getTextContent(await toolCall('browser_wait_for_response', {
+        session: 'integration-test',
+        waitId,
+        body: true,
+        timeout: 5000,
+      }));
+
+      expect(result).toMatch(/^201 .*POST https:\/\/example\.com\/api\/orders/);
+      expect(result).toContain('"id": 7');
+      await toolCall('browser_unroute', { session: 'integration-test', all: true });
+    });
+
+    it('times out when no request matches', async () => {
+      const result = await toolCall('browser_wait_for_request', {
+        session: 'integration-test',
+        url: '**/never',
+        timeout: 200,
+      });
+
+      expect(getTextContent(result)).toContain('Timed out after 200ms waiting for a request matching **/never');
+    });
+
+    it('rejects a matcher passed with waitId', async () => {
+      const result = await toolCall('browser_wait_for_request', {
+        session: 'integration-test',
+        url: '**/api/other',
+        waitId: 'w1',
+      });
+
+      expect(result.isError).toBe(true);
+      expect(getTextContent(result)).toContain('url cannot be combined with waitId');
+    });
+  });
+
   describe('Tabs', () => {
     it('lists tabs', async () => {
       const result = await toolCall('browser_tabs', {
@@ -452,7 +555,8 @@ describe('MCP Server Integration', () => {
         index: 1,
       });
 
-      expect(getTextContent(result)).toBe('Closed tab 1');
+      // Reported by stable id, even when picked by index
+      expect(getTextContent(result)).toMatch(/^Closed tab t\d+$/);
     });
   });
 
@@ -593,6 +697,30 @@ describe('MCP Server Integration', () => {
     });
   });
 
+  describe('Touch Gestures', () => {
+    it('taps, swipes and pinches on a touch-enabled session', async () => {
+      await toolCall('session_create', { name: 'touch-test', device: 'Pixel 7' });
+      await toolCall('browser_navigate', {
+        session: 'touch-test',
+        url: `data:text/html,<div id="pad" style="height:600px"></div><script>
+          window.seen = { start: 0, move: 0, maxTouches: 0 };
+          document.addEventListener('touchstart', (e) => { seen.start++; seen.maxTouches = Math.max(seen.maxTouches, e.touches.length); });
+          document.addEventListener('touchmove', () => { seen.move++; });
+        </script>`,
+      });
+
+      expect(getTextContent(await toolCall('browser_tap', { session: 'touch-test', selector: '#pad' }))).toBe("Tapped '#pad'");
+      expect(getTextContent(await toolCall('browser_swipe', { session: 'touch-test', direction: 'up', distance: 200 }))).toBe('Swiped up 200px');
+      expect(getTextContent(await toolCall('browser_pinch', { session: 'touch-test', scale: 2, selector: '#pad' }))).toContain('Pinched out');
+
+      const seen = JSON.parse(getTextContent(await toolCall('browser_evaluate', { session: 'touch-test', script: 'window.seen' })));
+      expect(seen.start).toBeGreaterThanOrEqual(3);
+      expect(seen.move).toBeGreaterThan(0);
+      expect(seen.maxTouches).toBe(2);
+      await toolCall('session_destroy', { name: 'touch-test' });
+    });
+  });
+
   describe('Session Cleanup', () => {
     it('destroys the session', async () => {
       const result = await toolCall('session_destroy', {
@@ -16,6 +16,23 @@ describe('MCP session_create schema', () => {
     expect(serverSource).toContain('windowOwner: z.string().optional()');
     expect(serverSource).toContain('startupTimeoutMs: z.number().optional()');
   });
+
+  it('exposes a persistent profile directory', () => {
+    expect(serverSource).toContain('userDataDir: z.string().optional()');
+  });
+
+  it('exposes context emulation on session_create and storage_load', () => {
+    expect(serverSource).toContain('device: z.string().optional()');
+    expect(serverSource).toContain('timezoneId: z.string().optional()');
+    expect(serverSource.match(/\.\.\.emulationParams/g)).toHaveLength(2);
+  });
+
+  it('exposes proxy, credentials and headers on session_create and storage_load', () => {
+    expect(serverSource).toContain('httpCredentials: z');
+    expect(serverSource).toContain('ignoreHTTPSErrors: z.boolean().optional()');
+    expect(serverSource.match(/\.\.\.networkParams/g)).toHaveLength(2);
+    expect(serverSource).toContain('"browser_set_headers"');
+  });
 });
 
 describe('MCP download schema', () => {
@@ -1,5 +1,16 @@
 import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { createServer } from 'node:http';
+import { createHash } from 'node:crypto';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { chromium, type Browser } from 'playwright';
 import { sessionManager } from '../core/sessions.js';
+import { extensionId } from '../core/extensions.js';
+
+const extensionDir = fileURLToPath(new URL('./fixtures/extension', import.meta.url));
 
 describe('SessionManager', () => {
   afterEach(async () => {
@@ -53,6 +64,595 @@ describe('SessionManager', () => {
     });
   });
 
+  describe('persistent profiles', () => {
+    it('keeps persistent cookies in the profile dir across sessions', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'browserplex-profile-'));
+      try {
+        const first = await sessionManager.create('profile-a', 'chromium', true, { userDataDir: dir });
+        expect(first.browser).toBe(first.context);
+        expect(sessionManager.list()[0].userDataDir).toBe(dir);
+        await first.context.addCookies([{ name: 'kept', value: '1', url: 'https://example.com', expires: Math.floor(Date.now() / 1000) + 3600 }]);
+        await sessionManager.destroy('profile-a');
+
+        const second = await sessionManager.create('profile-b', 'chromium', true, { userDataDir: dir });
+        const cookies = await second.context.cookies('https://example.com');
+        expect(cookies.map(c => c.name)).toContain('kept');
+      } finally {
+        await sessionManager.destroyAll();
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+
+    it('rejects a profile dir already held by another session', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'browserplex-profile-'));
+      try {
+        await sessionManager.create('holder', 'chromium', true, { userDataDir: dir });
+        await expect(sessionManager.create('contender', 'chromium', true, { userDataDir: dir }))
+          .rejects.toThrow(`Profile '${dir}' is already in use by session 'holder'`);
+      } finally {
+        await sessionManager.destroyAll();
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('attach', () => {
+    it('drives a browser server over wsEndpoint and disconnects without killing it', async () => {
+      const server = await chromium.launchServer();
+      try {
+        const session = await sessionManager.create('attached', 'chromium', true, { wsEndpoint: server.wsEndpoint() });
+        expect(session.attachedTo).toBe(server.wsEndpoint());
+        expect(sessionManager.list()[0].attachedTo).toBe(server.wsEndpoint());
+        await session.page.goto('data:text/html,<title>attached</title>');
+        expect(await session.page.title()).toBe('attached');
+
+        await sessionManager.destroy('attached');
+
+        // The server survives the disconnect and accepts a fresh client.
+        const again = await chromium.connect(server.wsEndpoint());
+        expect(again.isConnected()).toBe(true);
+        await again.close();
+      } finally {
+        await server.close();
+      }
+    });
+
+    it('rejects cdpUrl for non-chromium types', async () => {
+      await expect(sessionManager.create('bad-cdp', 'firefox', true, { cdpUrl: 'http://localhost:9222' }))
+        .rejects.toThrow('cdpUrl is only supported for chromium sessions, got firefox');
+    });
+  });
+
+  describe('emulation', () => {
+    it('applies a device preset with explicit overrides and reports it in list()', async () => {
+      const session = await sessionManager.create('phone', 'chromium', true, {
+        emulation: { device: 'Pixel 7', locale: 'de-DE', timezoneId: 'Europe/Berlin', colorScheme: 'dark' },
+      });
+
+      expect(await session.page.evaluate(() => navigator.language)).toBe('de-DE');
+      expect(await session.page.evaluate(() => Intl.DateTimeFormat().resolvedOptions().timeZone)).toBe('Europe/Berlin');
+      expect(await session.page.evaluate(() => matchMedia('(prefers-color-scheme: dark)').matches)).toBe(true);
+
+      const [info] = sessionManager.list();
+      expect(info.emulation).toMatchObject({ device: 'Pixel 7', isMobile: true, hasTouch: true, locale: 'de-DE' });
+      expect(info.emulation?.viewport).toEqual(session.page.viewportSize());
+    });
+
+    it('rejects unknown device names', async () => {
+      await expect(sessionManager.create('bad-device', 'chromium', true, { emulation: { device: 'Nokia 3310' } }))
+        .rejects.toThrow("Unknown device 'Nokia 3310'");
+    });
+  });
+
+  describe('init scripts', () => {
+    it('runs registered scripts on navigation and carries them into a fork', async () => {
+      const session = await sessionManager.create('scripted', 'chromium');
+      const first = await sessionManager.addInitScript('scripted', 'window.flag = "on"');
+      await sessionManager.addInitScript('scripted', 'window.other = 1');
+      await session.page.goto('data:text/html,<p>x</p>');
+      expect(await session.page.evaluate(() => (window as unknown as { flag: string }).flag)).toBe('on');
+
+      sessionManager.removeInitScript('scripted', 'i2');
+      const fork = await sessionManager.fork('scripted', 'scripted-fork');
+      expect(fork.initScripts.map(s => s.id)).toEqual([first.id]);
+      expect(await fork.page.evaluate(() => (window as unknown as { flag: string }).flag)).toBe('on');
+      expect(await fork.page.evaluate(() => (window as unknown as { other?: number }).other)).toBeUndefined();
+      expect((await sessionManager.addInitScript('scripted-fork', '1')).id).toBe('i3');
+    });
+
+    it('rejects removing an unknown id', async () => {
+      await sessionManager.create('noscripts', 'chromium');
+      expect(() => sessionManager.removeInitScript('noscripts', 'i9')).toThrow("Init script 'i9' not found in session 'noscripts'");
+    });
+  });
+
+  describe('network options', () => {
+    it('sends extra headers from creation and after setExtraHeaders', async () => {
+      const session = await sessionManager.create('headers', 'chromium', true, { network: { extraHTTPHeaders: { 'X-Env': 'staging' } } });
+      const seen: Array<Record<string, string>> = [];
+      await session.context.route('https://example.test/**', (route) => {
+        seen.push(route.request().headers());
+        return route.fulfill({ body: 'ok' });
+      });
+
+      await session.page.goto('https://example.test/a');
+      await sessionManager.setExtraHeaders('headers', { 'X-Env': 'prod' });
+      await session.page.goto('https://example.test/b');
+
+      expect(seen[0]['x-env']).toBe('staging');
+      expect(seen[1]['x-env']).toBe('prod');
+      expect((session.launch as { network?: object }).network).toEqual({ extraHTTPHeaders: { 'X-Env': 'prod' } });
+    });
+
+    it('reports the proxy server without its credentials', async () => {
+      await sessionManager.create('proxied', 'chromium', true, { network: { proxy: { server: 'http://127.0.0.1:9', username: 'u', password: 'secret' } } });
+      const info = sessionManager.list()[0];
+      expect(info.proxy).toBe('http://127.0.0.1:9');
+      expect(JSON.stringify(info)).not.toContain('secret');
+    });
+  });
+
+  describe('pooled', () => {
+    it('shares one browser per (type, headless) with isolated contexts', async () => {
+      const a = await sessionManager.create('pool-a', 'chromium', true, { pooled: true });
+      const b = await sessionManager.create('pool-b', 'chromium', true, { pooled: true });
+
+      expect(a.browser).toBe(b.browser);
+      expect(a.context).not.toBe(b.context);
+      await a.context.addCookies([{ name: 'only-a', value: '1', url: 'https://example.com' }]);
+      expect(await b.context.cookies('https://example.com')).toEqual([]);
+
+      const info = sessionManager.list().find(s => s.name === 'pool-a');
+      expect(info?.pool).toBe('chromium:headless');
+      expect(info?.sharedWith).toEqual(['pool-b']);
+    });
+
+    it('keeps the shared browser until its last session is destroyed', async () => {
+      const a = await sessionManager.create('pool-a', 'chromium', true, { pooled: true });
+      await sessionManager.create('pool-b', 'chromium', true, { pooled: true });
+      const shared = a.browser as import('playwright').Browser;
+
+      await sessionManager.destroy('pool-a');
+      expect(shared.isConnected()).toBe(true);
+
+      await sessionManager.destroy('pool-b');
+      expect(shared.isConnected()).toBe(false);
+    });
+  });
+
+  describe('warm pool', () => {
+    afterEach(async () => {
+      await sessionManager.drainWarmPool();
+    });
+
+    it('serves compatible creates from a pre-launched browser and counts hits/misses', async () => {
+      sessionManager.configureWarmPool(1);
+      for (let i = 0; i < 100 && sessionManager.warmPoolStats()?.ready !== 1; i++) {
+        await new Promise(r => setTimeout(r, 100));
+      }
+
+      await sessionManager.create('warm', 'chromium');
+      expect(sessionManager.warmPoolStats()).toMatchObject({ hits: 1, misses: 0 });
+
+      // Incompatible launch shapes bypass the pool without counting as a miss.
+      await sessionManager.create('pooled-bypass', 'chromium', true, { pooled: true });
+      expect(sessionManager.warmPoolStats()).toMatchObject({ hits: 1, misses: 0 });
+    });
+  });
+
+  describe('tab capture', () => {
+    it('captures console and network from tabs opened after creation, tagged by tab', async () => {
+      const session = await sessionManager.create('tabs', 'chromium');
+      await session.context.route('https://example.test/**', (route) => route.fulfill({ contentType: 'text/html', body: '<script>console.log(location.pathname)</script>' }));
+      await session.page.goto('https://example.test/first');
+      const popup = await session.context.newPage();
+      await popup.goto('https://example.test/second');
+
+      expect(session.consoleMessages.map(m => [m.tabId, m.text])).toEqual([['t1', '/first'], ['t2', '/second']]);
+      expect(session.networkRequests.find(r => r.url.endsWith('/second'))).toMatchObject({ tabId: 't2', status: 200 });
+      expect(session.consoleMessages[1].pageUrl).toBe('https://example.test/second');
+    });
+
+    it('logs each request with its own status, post data, redirects and failures', async () => {
+      const session = await sessionManager.create('netlog', 'chromium');
+      let flaky = 0;
+      await session.context.route('https://example.test/**', (route) => {
+        const url = route.request().url();
+        if (url.endsWith('/old')) return route.fulfill({ status: 302, headers: { location: '/new' } });
+        if (url.endsWith('/down')) return route.abort('connectionrefused');
+        if (url.endsWith('/flaky')) return route.fulfill({ status: ++flaky === 1 ? 500 : 200, body: 'x' });
+        return route.fulfill({ contentType: 'text/html', body: '<p>ok</p>' });
+      });
+      await session.page.goto('https://example.test/');
+      await session.page.evaluate(async () => {
+        await fetch('/flaky');
+        await fetch('/flaky', { method: 'POST', body: 'a=1' });
+        await fetch('/old');
+        await fetch('/down').catch(() => {});
+      });
+
+      const byUrl = (suffix: string) => session.networkRequests.filter(r => r.url.endsWith(suffix));
+      expect(byUrl('/flaky').map(r => [r.method, r.status, r.postData])).toEqual([['GET', 500, undefined], ['POST', 200, 'a=1']]);
+      const [old] = byUrl('/old');
+      expect(old.status).toBe(302);
+      expect(byUrl('/new')[0]).toMatchObject({ redirectChain: ['https://example.test/old'], redirectedFrom: old.id, status: 200, resourceType: 'fetch' });
+      expect(byUrl('/down')[0].failure).toContain('ERR_CONNECTION_REFUSED');
+      expect(new Set(session.networkRequests.map(r => r.id)).size).toBe(session.networkRequests.length);
+    });
+  });
+
+  describe('blocking', () => {
+    it('aborts blocked types, URLs and trackers, counting them in the network log', async () => {
+      const server = createServer((req, res) => {
+        if (req.url === '/') {
+          res.writeHead(200, { 'content-type': 'text/html' });
+          res.end('<link rel="stylesheet" href="/style.css"><img src="/pic.png"><script src="/ads/banner.js"></script>' +
+            '<script src="https://www.google-analytics.com/analytics.js"></script>');
+          return;
+        }
+        res.writeHead(200, { 'content-type': req.url === '/style.css' ? 'text/css' : 'application/octet-stream' });
+        res.end('');
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      try {
+        const session = await sessionManager.create('blocker', 'chromium', true, {
+          blockResources: { resourceTypes: ['image'], urls: ['**/ads/**'], trackers: true },
+        });
+        await session.page.goto(origin);
+        const outcome = (path: string) => session.networkRequests.find(r => r.url.endsWith(path));
+        await expect.poll(() => outcome('/analytics.js')?.blocked).toBe('tracker');
+        expect(outcome('/pic.png')).toMatchObject({ blocked: 'image', failure: expect.stringContaining('BLOCKED_BY_CLIENT') });
+        expect(outcome('/ads/banner.js')?.blocked).toBe('url');
+        expect(outcome('/style.css')).toMatchObject({ status: 200 });
+        expect(outcome('/style.css')?.blocked).toBeUndefined();
+        expect(session.blockedCounts).toEqual({ image: 1, url: 1, tracker: 1 });
+
+        // A route added afterwards still comes second to the block
+        const rule = await sessionManager.addRoute('blocker', { url: '**/pic.png', action: 'fulfill', body: '' });
+        session.networkRequests = [];
+        await session.page.reload();
+        await expect.poll(() => outcome('/pic.png')?.blocked).toBe('image');
+        expect(rule.hits).toBe(0);
+        expect(session.blockedCounts).toEqual({ image: 2, url: 2, tracker: 2 });
+        await sessionManager.removeRoute('blocker');
+
+        await sessionManager.setBlock('blocker', {});
+        expect(session.blocking).toBeUndefined();
+        expect((session.launch as { blockResources?: unknown }).blockResources).toBeUndefined();
+        session.networkRequests = [];
+        await session.page.reload();
+        await expect.poll(() => outcome('/pic.png')?.status).toBe(200);
+        expect(session.blockedCounts).toEqual({ image: 2, url: 2, tracker: 2 });
+      } finally {
+        server.closeAllConnections();
+        server.close();
+      }
+    });
+  });
+
+  describe('realtime capture', () => {
+    it('logs WebSocket frames with their close code, and SSE messages', async () => {
+      const server = createServer((req, res) => {
+        if (req.url === '/events') {
+          res.writeHead(200, { 'content-type': 'text/event-stream' });
+          res.write('id: 1\ndata: hello\n\nevent: price\ndata: 42\n\n');
+          return;
+        }
+        res.writeHead(200, { 'content-type': 'text/html' });
+        res.end('<p>rt</p>');
+      });
+      // Just enough of RFC 6455 for one small text frame each way, then a server close (4001 bye)
+      server.on('upgrade', (req, socket) => {
+        const accept = createHash('sha1').update(`${req.headers['sec-websocket-key']}258EAFA5-E914-47DA-95CA-C5AB0DC85B11`).digest('base64');
+        socket.write(`HTTP/1.1 101 Switching Protocols\r\nUpgrade: websocket\r\nConnection: Upgrade\r\nSec-WebSocket-Accept: ${accept}\r\n\r\n`);
+        socket.once('data', (buf: Buffer) => {
+          const mask = buf.subarray(2, 6);
+          const text = Buffer.from(buf.subarray(6, 6 + (buf[1] & 0x7f)).map((b, i) => b ^ mask[i % 4])).toString();
+          const echo = Buffer.from(`echo:${text}`);
+          socket.write(Buffer.concat([Buffer.from([0x81, echo.length]), echo]));
+          socket.write(Buffer.from([0x88, 5, 0x0f, 0xa1, ...Buffer.from('bye')]));
+          socket.once('data', () => socket.end());
+        });
+      });
+      await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+      const origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+      try {
+        const session = await sessionManager.create('rt', 'chromium', true, { captureRealtime: true });
+        await session.page.goto(origin);
+        await session.page.evaluate(() => new Promise((resolve) => {
+          const ws = new WebSocket(`ws://${location.host}/socket`);
+          ws.onopen = () => ws.send('hi');
+          ws.onclose = resolve;
+        }));
+        expect(await session.page.evaluate(() => new Promise((resolve) => {
+          const es = new EventSource('/events');
+          es.addEventListener('price', (e) => {
+            es.close();
+            resolve((e as MessageEvent).data);
+          });
+        }))).toBe('42');
+
+        await expect.poll(() => session.realtimeEvents.find(e => e.type === 'close')?.code).toBe(4001);
+        await expect.poll(() => session.realtimeEvents.filter(e => e.protocol === 'sse').length).toBe(3);
+        const ws = session.realtimeEvents.filter(e => e.connectionId === 'ws1');
+        expect(ws.map(e => [e.type, e.payload])).toEqual([['open', undefined], ['sent', 'hi'], ['received', 'echo:hi'], ['close', undefined]]);
+        expect(ws[3]).toMatchObject({ code: 4001, reason: 'bye', tabId: 't1' });
+        expect(session.realtimeEvents.filter(e => e.connectionId === 'sse1').map(e => [e.type, e.event, e.payload])).toEqual([
+          ['open', undefined, undefined], ['received', 'message', 'hello'], ['received', 'price', '42'],
+        ]);
+        expect(session.realtimeEvents.map(e => e.seq)).toEqual(session.realtimeEvents.map((_, i) => i + 1));
+      } finally {
+        server.closeAllConnections();
+        server.close();
+      }
+    });
+  });
+
+  describe('waitForNewTab', () => {
+    it('hands out a popup opened before the wait, then waits for the next one', async () => {
+      const session = await sessionManager.create('popups', 'chromium');
+      await session.page.evaluate(() => { window.open('about:blank'); });
+      const first = await sessionManager.waitForNewTab('popups', 5000);
+      expect(session.tabIds.get(first)).toBe('t2');
+
+      const [second] = await Promise.all([
+        sessionManager.waitForNewTab('popups', 5000),
+        session.page.evaluate(() => { setTimeout(() => window.open('about:blank'), 200); }),
+      ]);
+      expect(session.tabIds.get(second)).toBe('t3');
+      await expect(sessionManager.waitForNewTab('popups', 200)).rejects.toThrow();
+    });
+  });
+
+  describe('extensions', () => {
+    it('loads an unpacked extension and reports its id, manifest and service worker', async () => {
+      const session = await sessionManager.create('ext', 'chromium', true, { extensions: [extensionDir] });
+      if (session.context.serviceWorkers().length === 0) await session.context.waitForEvent('serviceworker');
+
+      const [ext] = await sessionManager.listExtensions('ext');
+      expect(ext).toMatchObject({ id: extensionId(extensionDir), name: 'browserplex test extension', manifestVersion: 3, popup: 'popup.html', options: 'options.html' });
+      expect(ext.serviceWorker).toBe(`chrome-extension://${ext.id}/background.js`);
+      await session.page.goto(`chrome-extension://${ext.id}/popup.html`);
+      expect(await session.page.title()).toBe('Test popup');
+      expect(sessionManager.list()[0].extensions).toEqual([extensionDir]);
+    });
+
+    it('rejects extensions outside a dedicated chromium launch', async () => {
+      await expect(sessionManager.create('ext-ff', 'firefox', true, { extensions: [extensionDir] }))
+        .rejects.toThrow('extensions are only supported for chromium sessions, got firefox');
+      await expect(sessionManager.create('ext-pooled', 'chromium', true, { extensions: [extensionDir], pooled: true }))
+        .rejects.toThrow('pooled cannot be combined');
+      await sessionManager.create('plain', 'chromium');
+      await expect(sessionManager.listExtensions('plain')).rejects.toThrow("Session 'plain' has no extensions loaded");
+    });
+  });
+
+  describe('permissions', () => {
+    it('grants per origin, emulates geolocation and carries both into a fork', async () => {
+      const session = await sessionManager.create('geo', 'chromium', true, {
+        permissions: [{ permissions: ['geolocation'], origin: 'https://maps.test' }],
+        geolocation: { latitude: 52.52, longitude: 13.4 },
+      });
+      await session.context.route('https://**/*', (route) => route.fulfill({ contentType: 'text/html', body: '<p>x</p>' }));
+      await session.page.goto('https://maps.test/');
+      const read = () => session.page.evaluate(() => new Promise<number[]>((resolve, reject) =>
+        navigator.geolocation.getCurrentPosition((p) => resolve([p.coords.latitude, p.coords.longitude]), reject)));
+      expect(await read()).toEqual([52.52, 13.4]);
+      await sessionManager.setGeolocation('geo', { latitude: 48.85, longitude: 2.35 });
+      expect(await read()).toEqual([48.85, 2.35]);
+
+      await sessionManager.grantPermissions('geo', ['notifications'], 'https://other.test');
+      const remaining = await sessionManager.clearPermissions('geo', 'https://other.test');
+      expect(remaining).toEqual([{ permissions: ['geolocation'], origin: 'https://maps.test' }]);
+      expect(await session.page.evaluate(() => navigator.permissions.query({ name: 'geolocation' }).then((p) => p.state))).toBe('granted');
+
+      await session.page.goto('about:blank');
+      await sessionManager.fork('geo', 'geo-fork');
+      expect(sessionManager.list().find(i => i.name === 'geo-fork')).toMatchObject({
+        permissions: remaining,
+        geolocation: { latitude: 48.85, longitude: 2.35 },
+      });
+    });
+  });
+
+  describe('network conditions', () => {
+    it('fills presets, goes offline on every tab and resets', async () => {
+      const session = await sessionManager.create('slow', 'chromium');
+      expect(await sessionManager.setNetworkConditions('slow', { preset: 'slow-3g', cpuThrottlingRate: 4 }))
+        .toEqual({ preset: 'slow-3g', latencyMs: 2000, downloadKbps: 400, uploadKbps: 400, cpuThrottlingRate: 4 });
+      expect(sessionManager.list()[0].networkConditions).toMatchObject({ preset: 'slow-3g', latencyMs: 2000 });
+
+      await sessionManager.setNetworkConditions('slow', { preset: 'offline' });
+      const tab = await session.context.newPage();
+      expect(await session.page.evaluate(() => navigator.onLine)).toBe(false);
+      expect(await tab.evaluate(() => navigator.onLine)).toBe(false);
+
+      await sessionManager.setNetworkConditions('slow');
+      expect(await session.page.evaluate(() => navigator.onLine)).toBe(true);
+      expect(sessionManager.list()[0].networkConditions).toBeUndefined();
+      await expect(sessionManager.setNetworkConditions('slow', { preset: 'dial-up' })).rejects.toThrow("Unknown network preset 'dial-up'");
+    });
+  });
+
+  describe('routes', () => {
+    it('mocks by glob, regex and method, counts hits, unroutes and carries routes into a fork', async () => {
+      const session = await sessionManager.create('mock', 'chromium');
+      await sessionManager.addRoute('mock', { url: 'https://app.test/**', action: 'fulfill', contentType: 'text/html', body: '<p>app</p>' });
+      await sessionManager.addRoute('mock', { url: '/api/', regex: true, method: 'post', action: 'fulfill', status: 201, body: 'created' });
+      await session.page.goto('https://app.test/');
+      const call = (method: string) => session.page.evaluate((m) => fetch('/api/items', { method: m }).then(async (r) => `${r.status} ${await r.text()}`), method);
+      expect(await call('POST')).toBe('201 created');
+      expect(await call('GET')).toBe('200 <p>app</p>');
+      expect(session.routes.map(r => [r.id, r.hits])).toEqual([['r1', 2], ['r2', 1]]);
+
+      await expect(sessionManager.addRoute('mock', { url: '(', regex: true, action: 'abort' })).rejects.toThrow("Invalid route regex '('");
+      await expect(sessionManager.addRoute('mock', { url: '**', action: 'abort', body: 'x' })).rejects.toThrow('only apply to fulfill routes');
+
+      const fork = await sessionManager.fork('mock', 'mock-fork');
+      // Counts restart; the fork's reopened tab is already served by r1
+      expect(fork.routes.map(r => [r.id, r.hits])).toEqual([['r1', 1], ['r2', 0]]);
+
+      await sessionManager.removeRoute('mock', 'r2');
+      expect(await call('POST')).toBe('200 <p>app</p>');
+      await expect(sessionManager.removeRoute('mock', 'r2')).rejects.toThrow("Route 'r2' not found");
+    });
+  });
+
+  describe('HAR', () => {
+    it('records a session to a HAR and replays it offline in a new session', async () => {
+      const dir = await mkdtemp(join(tmpdir(), 'bp-har-'));
+      const file = join(dir, 'flow.har');
+      try {
+        const session = await sessionManager.create('rec', 'chromium');
+        await sessionManager.addRoute('rec', { url: 'https://app.test/', action: 'fulfill', contentType: 'text/html', body: '<title>app</title>' });
+        await sessionManager.addRoute('rec', { url: '**/api/cart', action: 'fulfill', contentType: 'application/json', body: '{"items":2}' });
+        await sessionManager.startHar('rec', { path: file });
+        await expect(sessionManager.startHar('rec', { path: file })).rejects.toThrow('already recording a HAR');
+        await session.page.goto('https://app.test/');
+        await session.page.evaluate(() => fetch('/api/cart').then((r) => r.text()));
+        expect(sessionManager.list()[0].harRecording).toBe(file);
+        expect(await sessionManager.stopHar('rec')).toEqual({ path: file, entries: 2 });
+
+        const replay = await sessionManager.create('replay', 'chromium', true, { replayHar: file });
+        await replay.page.goto('https://app.test/');
+        expect(await replay.page.title()).toBe('app');
+        expect(await replay.page.evaluate(() => fetch('/api/cart').then((r) => r.json()))).toEqual({ items: 2 });
+        await expect(replay.page.evaluate(() => fetch('/api/other'))).rejects.toThrow();
+      } finally {
+        await rm(dir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('persistence', () => {
+    it('restores a saved session lazily with its tabs, cookies, metadata and init scripts', async () => {
+      const src = await sessionManager.create('saved', 'chromium');
+      sessionManager.setMetadata('saved', { labels: { env: 'staging' }, description: 'checkout flow' });
+      await sessionManager.addInitScript('saved', 'window.flag = "on"');
+      await src.context.addCookies([{ name: 'auth', value: 'token', url: 'https://example.com' }]);
+      await src.page.goto('data:text/html,<title>one</title>');
+      const second = await src.context.newPage();
+      await second.goto('data:text/html,<title>two</title>');
+      src.page = second;
+
+      const saved = await sessionManager.snapshot();
+      await sessionManager.destroyAll();
+      sessionManager.addDormant(saved);
+      expect(sessionManager.list()).toMatchObject([{ name: 'saved', status: 'dormant', labels: { env: 'staging' } }]);
+
+      const restored = await sessionManager.acquire('saved');
+      expect(restored.context.pages().map(p => p.url())).toEqual(saved[0].tabs);
+      expect(await restored.page.title()).toBe('two');
+      expect((await restored.context.cookies('https://example.com')).map(c => c.name)).toEqual(['auth']);
+      expect(await restored.page.evaluate(() => (window as unknown as { flag: string }).flag)).toBe('on');
+      expect(restored.description).toBe('checkout flow');
+      expect(sessionManager.takeRecoveryNotice('saved')).toContain('restored from a previous daemon run');
+      expect(sessionManager.list()[0].status).toBe('alive');
+    });
+
+    it('destroys a dormant session without relaunching it', async () => {
+      sessionManager.addDormant([{
+        name: 'stale', type: 'chromium', headless: true, createdAt: new Date().toISOString(), savedAt: new Date().toISOString(),
+        tabs: [], activeTab: 0, initScripts: [], nextInitScriptId: 1,
+      }]);
+      await expect(sessionManager.create('stale', 'chromium')).rejects.toThrow("Session 'stale' already exists");
+      await sessionManager.destroy('stale');
+      expect(sessionManager.list()).toEqual([]);
+    });
+  });
+
+  describe('fork', () => {
+    it('copies storage, tabs, active tab and viewport into a new session', async () => {
+      const src = await sessionManager.create('src', 'chromium');
+      await src.page.setViewportSize({ width: 800, height: 600 });
+      await src.context.addCookies([{ name: 'auth', value: 'token', url: 'https://example.com' }]);
+      await src.page.goto('data:text/html,<title>one</title>');
+      const second = await src.context.newPage();
+      await second.goto('data:text/html,<title>two</title>');
+      src.page = second;
+
+      const fork = await sessionManager.fork('src', 'dst');
+
+      expect(fork.type).toBe('chromium');
+      expect(fork.context).not.toBe(src.context);
+      expect((await fork.context.cookies('https://example.com')).map(c => c.name)).toEqual(['auth']);
+      expect(fork.context.pages().map(p => p.url())).toEqual(src.context.pages().map(p => p.url()));
+      expect(await fork.page.title()).toBe('two');
+      expect(fork.page.viewportSize()).toEqual({ width: 800, height: 600 });
+    });
+
+    it('refuses to overwrite an existing session', async () => {
+      await sessionManager.create('src', 'chromium');
+      await sessionManager.create('taken', 'chromium');
+      await expect(sessionManager.fork('src', 'taken')).rejects.toThrow("Session 'taken' already exists");
+    });
+  });
+
+  describe('leases', () => {
+    it('destroys a session once its idle lease runs out and reports why', async () => {
+      const expired: Array<[string, string]> = [];
+      sessionManager.onExpire((name, reason) => expired.push([name, reason]));
+      await sessionManager.create('leased', 'chromium');
+      sessionManager.setLease('leased', { idleTimeoutMs: 300 });
+      expect(sessionManager.list()[0].expiresInMs).toBeLessThanOrEqual(300);
+
+      await new Promise(r => setTimeout(r, 2000));
+
+      expect(sessionManager.get('leased')).toBeUndefined();
+      expect(expired).toContainEqual(['leased', 'no activity for 300ms']);
+    });
+
+    it('renews the idle lease on every lookup and on touch', async () => {
+      await sessionManager.create('kept', 'chromium');
+      sessionManager.setLease('kept', { idleTimeoutMs: 1500 });
+      for (let i = 0; i < 4; i++) {
+        await new Promise(r => setTimeout(r, 600));
+        expect(sessionManager.touch('kept')).toBeGreaterThan(1000);
+      }
+      expect(sessionManager.get('kept')).toBeDefined();
+    });
+
+    it('does not reap a session while an action on it is running', async () => {
+      await sessionManager.create('busy', 'chromium');
+      sessionManager.setLease('busy', { idleTimeoutMs: 300 });
+      await sessionManager.busy('busy', () => new Promise(r => setTimeout(r, 2000)));
+
+      expect(sessionManager.get('busy')).toBeDefined();
+      expect(sessionManager.touch('busy')).toBeGreaterThan(200);
+    });
+  });
+
+  describe('crash and recovery', () => {
+    it('marks a session dead when its browser goes away', async () => {
+      const session = await sessionManager.create('doomed', 'chromium');
+      await (session.browser as Browser).close();
+      await new Promise(r => setTimeout(r, 100));
+
+      expect(sessionManager.list()[0]).toMatchObject({ name: 'doomed', status: 'dead', deadReason: 'browser disconnected' });
+      await expect(sessionManager.acquire('doomed')).rejects.toThrow("Session 'doomed' is dead (browser disconnected)");
+    });
+
+    it('relaunches an autoRecover session and restores its URL and storage', async () => {
+      const session = await sessionManager.create('phoenix', 'chromium');
+      await sessionManager.setAutoRecover('phoenix', true);
+      await session.page.goto('data:text/html,<p>back</p>');
+      await session.context.addCookies([{ name: 'k', value: 'v', domain: 'example.com', path: '/' }]);
+      await sessionManager.acquire('phoenix');
+      await new Promise(r => setTimeout(r, 200));
+
+      await (session.browser as Browser).close();
+      await new Promise(r => setTimeout(r, 100));
+      const recovered = await sessionManager.acquire('phoenix');
+
+      expect(recovered).not.toBe(session);
+      expect(recovered.page.url()).toBe('data:text/html,<p>back</p>');
+      expect(await recovered.context.cookies('https://example.com')).toContainEqual(expect.objectContaining({ name: 'k', value: 'v' }));
+      expect(sessionManager.takeRecoveryNotice('phoenix')).toContain("Session 'phoenix' was recovered after it died (browser disconnected)");
+      expect(sessionManager.takeRecoveryNotice('phoenix')).toBeUndefined();
+    });
+  });
+
   describe('get', () => {
     it('returns session when it exists', async () => {
       await sessionManager.create('existing', 'chromium');
@@ -120,6 +720,22 @@ describe('SessionManager', () => {
       expect(sessions[0].url).toBeDefined();
       expect(sessions[0].createdAt).toBeDefined();
     });
+
+    it('reports metadata and buffer sizes, and filters by label, type, url and age', async () => {
+      const a = await sessionManager.create('tagged', 'chromium');
+      await sessionManager.create('plain', 'chromium');
+      sessionManager.setMetadata('tagged', { labels: { env: 'staging' }, description: 'checkout', owner: 'agent-a' });
+      await a.page.goto('data:text/html,<script>console.log("hi")</script>');
+      await a.context.newPage();
+
+      expect(sessionManager.list({ labels: { env: 'staging' } })).toEqual([
+        expect.objectContaining({ name: 'tagged', labels: { env: 'staging' }, description: 'checkout', owner: 'agent-a', tabs: 2, consoleCount: 1 }),
+      ]);
+      expect(sessionManager.list({ url: 'data:' }).map(s => s.name)).toEqual(['tagged']);
+      expect(sessionManager.list({ type: 'firefox' })).toEqual([]);
+      expect(sessionManager.list({ newerThanMs: 60_000 })).toHaveLength(2);
+      expect(sessionManager.list({ olderThanMs: 60_000 })).toEqual([]);
+    });
   });
 
   describe('destroyAll', () => {
@@ -43,6 +43,31 @@ const FRAME: FlagDef = {
   desc: "iframe selector chain (outermost first, repeatable for nested)",
 };
 
+// Context emulation flags shared by `session create` and `storage load`.
+const EMULATION_FLAGS: Record<string, FlagDef> = {
+  device: { type: "string", desc: "device preset, e.g. 'iPhone 13' (Playwright devices registry)" },
+  viewport: { type: "string", desc: "viewport WxH, e.g. 390x844" },
+  "device-scale-factor": { key: "deviceScaleFactor", type: "number", desc: "device pixel ratio" },
+  mobile: { key: "isMobile", type: "boolean", desc: "emulate a mobile device (not firefox)" },
+  touch: { key: "hasTouch", type: "boolean", desc: "enable touch events" },
+  "user-agent": { key: "userAgent", type: "string", desc: "User-Agent override" },
+  locale: { type: "string", desc: "locale, e.g. de-DE" },
+  timezone: { key: "timezoneId", type: "string", desc: "IANA timezone, e.g. Europe/Berlin" },
+  "color-scheme": { key: "colorScheme", type: "string", desc: "light|dark|no-preference" },
+  "reduced-motion": { key: "reducedMotion", type: "string", desc: "reduce|no-preference" },
+};
+
+// Proxy/auth/header flags shared by `session create` and `storage load`.
+const NETWORK_FLAGS: Record<string, FlagDef> = {
+  proxy: { key: "proxyServer", type: "string", desc: "proxy URL, e.g. http://proxy.corp:3128" },
+  "proxy-bypass": { key: "proxyBypass", type: "string", desc: "comma-separated hosts that skip the proxy" },
+  "proxy-username": { key: "proxyUsername", type: "string", desc: "proxy username" },
+  "proxy-password": { key: "proxyPassword", type: "string", desc: "proxy password" },
+  "http-credentials": { key: "httpCredentials", type: "string", desc: "HTTP auth as user:pass" },
+  header: { key: "extraHTTPHeaders", type: "string[]", desc: "Name=value header sent with every request (repeatable)" },
+  "ignore-https-errors": { key: "ignoreHTTPSErrors", type: "boolean", desc: "accept invalid TLS certificates" },
+};
+
 export const COMMANDS: CommandSpec[] = [
   // ---- session ----
   {
@@ -53,6 +78,25 @@ export const COMMANDS: CommandSpec[] = [
       browser: { key: "type", type: "string", alias: "b", desc: "chromium|firefox|webkit|camoufox|electron|tauri" },
       headless: { type: "boolean", desc: "run headless (default)" },
       headed: { type: "boolean", desc: "open a visible window (any browser type)" },
+      "profile-dir": { key: "userDataDir", type: "string", desc: "persistent profile dir (chromium/firefox/webkit/camoufox)" },
+      "cdp-url": { key: "cdpUrl", type: "string", desc: "attach to a running chromium over CDP (e.g. http://localhost:9222)" },
+      "ws-endpoint": { key: "wsEndpoint", type: "string", desc: "attach to a Playwright browser server wsEndpoint" },
+      pooled: { type: "boolean", desc: "share one browser process per (type, headless) with other pooled sessions" },
+      extension: { key: "extensions", type: "string[]", desc: "chromium: unpacked extension dir to load (repeatable)" },
+      permission: { key: "permissions", type: "string[]", desc: "grant a permission, e.g. geolocation (repeatable)" },
+      "permissions-origin": { key: "permissionsOrigin", type: "string", desc: "origin the --permission grants apply to (default all)" },
+      geolocation: { type: "string", desc: "emulated position lat,lng[,accuracy]" },
+      "replay-har": { key: "replayHar", type: "string", desc: "answer requests from this HAR file (offline replay)" },
+      "capture-realtime": { key: "captureRealtime", type: "boolean", desc: "also log SSE messages and WebSocket close codes (wraps page globals)" },
+      "block-type": { key: "blockResourceTypes", type: "string", desc: "block resource types, comma-separated, e.g. image,font,media" },
+      "block-url": { key: "blockUrls", type: "string[]", desc: "block URLs matching this glob (repeatable)" },
+      "block-trackers": { key: "blockTrackers", type: "boolean", desc: "block common ad/analytics hosts" },
+      ttl: { key: "ttlMs", type: "number", desc: "lease: destroy this many ms after creation" },
+      "idle-timeout": { key: "idleTimeoutMs", type: "number", desc: "lease: destroy after this many ms without an action" },
+      "auto-recover": { key: "autoRecover", type: "boolean", desc: "relaunch on crash/disconnect, restoring storage + URL" },
+      "init-script": { key: "initScripts", type: "string[]", desc: "JS run before page scripts on every navigation (repeatable)" },
+      label: { key: "labels", type: "string[]", desc: "K=V label (repeatable)" },
+      description: { type: "string", desc: "free-form note shown in session list" },
       "executable-path": { key: "executablePath", type: "string", desc: "electron: path to the Electron binary" },
       "electron-arg": { key: "electronArgs", type: "string[]", desc: "electron: launch arg (repeatable)" },
       "app-path": { key: "appPath", type: "string", desc: "tauri: debug app binary path" },
@@ -63,10 +107,38 @@ export const COMMANDS: CommandSpec[] = [
       "window-title": { key: "windowTitle", type: "string", desc: "tauri screenshot window title hint" },
       "window-owner": { key: "windowOwner", type: "string", desc: "tauri screenshot owner/process hint" },
       "startup-timeout": { key: "startupTimeoutMs", type: "number", desc: "tauri startup timeout in ms" },
+      ...EMULATION_FLAGS,
+      ...NETWORK_FLAGS,
     },
     summary: "Create a named browser session",
   },
-  { path: ["session", "list"], tool: "session_list", summary: "List active sessions" },
+  {
+    path: ["session", "list"],
+    tool: "session_list",
+    flags: {
+      label: { key: "labels", type: "string[]", desc: "only sessions with this K=V label (repeatable, all must match)" },
+      browser: { key: "type", type: "string", alias: "b", desc: "only sessions of this browser type" },
+      url: { type: "string", desc: "only sessions whose URL contains this" },
+      "older-than": { key: "olderThanMs", type: "number", desc: "only sessions created at least this many ms ago" },
+      "newer-than": { key: "newerThanMs", type: "number", desc: "only sessions created at most this many ms ago" },
+    },
+    summary: "List active sessions (optionally filtered)",
+  },
+  {
+    path: ["session", "fork"],
+    tool: "session_fork",
+    positionals: [
+      { key: "source", required: true, desc: "session to fork" },
+      { key: "name", required: true, desc: "new session name" },
+    ],
+    summary: "Fork a live session (storage, URL, viewport, tabs) into a new one",
+  },
+  {
+    path: ["session", "touch"],
+    tool: "session_touch",
+    positionals: [{ key: "name", required: true, desc: "session name" }],
+    summary: "Renew a session's idle lease",
+  },
   {
     path: ["session", "destroy"],
     tool: "session_destroy",
@@ -93,6 +165,9 @@ export const COMMANDS: CommandSpec[] = [
       browser: { key: "type", type: "string", alias: "b", desc: "chromium|firefox|webkit|camoufox" },
       headless: { type: "boolean", desc: "run headless (default)" },
       headed: { type: "boolean", desc: "open a visible window" },
+      pooled: { type: "boolean", desc: "share one browser process per (type, headless)" },
+      ...EMULATION_FLAGS,
+      ...NETWORK_FLAGS,
     },
     summary: "Load stored storage into a new session",
   },
@@ -192,6 +267,38 @@ export const COMMANDS: CommandSpec[] = [
     flags: { timeout: TIMEOUT, frame: FRAME },
     summary: "Drag one element to another (source + target must share the same iframe scope)",
   },
+  {
+    path: ["tap"],
+    tool: "browser_tap",
+    positionals: [{ key: "selector", required: true, desc: "ref or CSS selector" }],
+    flags: { timeout: TIMEOUT, frame: FRAME },
+    summary: "Tap an element (touch-enabled sessions)",
+  },
+  {
+    path: ["swipe"],
+    tool: "browser_swipe",
+    positionals: [
+      { key: "direction", required: true, desc: "up|down|left|right (finger direction)" },
+      { key: "selector", required: false, desc: "ref/selector (default: viewport)" },
+    ],
+    flags: {
+      distance: { type: "number", desc: "px the finger travels (default 60% of target)" },
+      duration: { key: "durationMs", type: "number", desc: "swipe duration in ms (default 300)" },
+      timeout: TIMEOUT,
+      frame: FRAME,
+    },
+    summary: "Swipe on an element or the viewport",
+  },
+  {
+    path: ["pinch"],
+    tool: "browser_pinch",
+    positionals: [
+      { key: "scale", required: true, desc: ">1 zooms in, <1 zooms out" },
+      { key: "selector", required: false, desc: "ref/selector (default: viewport)" },
+    ],
+    flags: { duration: { key: "durationMs", type: "number", desc: "pinch duration in ms (default 400)" }, timeout: TIMEOUT, frame: FRAME },
+    summary: "Two-finger pinch (chromium)",
+  },
   {
     path: ["select"],
     tool: "browser_select_option",
@@ -238,6 +345,34 @@ export const COMMANDS: CommandSpec[] = [
     flags: { state: { type: "string", desc: "attached|detached|visible|hidden" }, timeout: TIMEOUT, frame: FRAME },
     summary: "Wait for an element or load",
   },
+  {
+    path: ["wait", "request"],
+    tool: "browser_wait_for_request",
+    positionals: [{ key: "url", required: false, desc: "URL glob (a regex with --regex)" }],
+    flags: {
+      regex: { type: "boolean", desc: "treat the url as a regular expression" },
+      method: { type: "string", desc: "only this HTTP method" },
+      timeout: TIMEOUT,
+      arm: { type: "boolean", desc: "print a wait id at once; collect it later with --wait-id" },
+      "wait-id": { key: "waitId", type: "string", desc: "collect an armed wait, e.g. w1" },
+    },
+    summary: "Wait for a matching request",
+  },
+  {
+    path: ["wait", "response"],
+    tool: "browser_wait_for_response",
+    positionals: [{ key: "url", required: false, desc: "URL glob (a regex with --regex)" }],
+    flags: {
+      regex: { type: "boolean", desc: "treat the url as a regular expression" },
+      method: { type: "string", desc: "only this HTTP method" },
+      status: { type: "number", desc: "only a response with this status" },
+      body: { type: "boolean", desc: "include the body (parsed JSON, or text)" },
+      timeout: TIMEOUT,
+      arm: { type: "boolean", desc: "print a wait id at once; collect it later with --wait-id" },
+      "wait-id": { key: "waitId", type: "string", desc: "collect an armed wait, e.g. w1" },
+    },
+    summary: "Wait for a matching response",
+  },
   {
     path: ["eval"],
     tool: "browser_evaluate",
@@ -250,6 +385,26 @@ export const COMMANDS: CommandSpec[] = [
     positionals: [{ key: "script", required: false, desc: "JS body, gets the Electron module as `electron` (omit or '-' for stdin)" }],
     summary: "Evaluate JS in the Electron MAIN process (electron sessions)",
   },
+  {
+    path: ["init-script", "add"],
+    tool: "browser_add_init_script",
+    positionals: [{ key: "script", required: false, desc: "JS run before page scripts on every navigation (omit or '-' for stdin)" }],
+    summary: "Register an init script on the session",
+  },
+  { path: ["init-script", "list"], tool: "browser_list_init_scripts", summary: "List the session's init scripts" },
+  {
+    path: ["init-script", "remove"],
+    tool: "browser_remove_init_script",
+    positionals: [{ key: "id", required: true, desc: "init script id, e.g. i1" }],
+    summary: "Remove an init script from the session's registry",
+  },
+  {
+    path: ["extensions"],
+    tool: "browser_extensions",
+    positionals: [{ key: "action", required: false, desc: "list|popup|options (default list)" }],
+    flags: { id: { type: "string", desc: "popup/options: extension id (optional with one extension)" } },
+    summary: "List loaded extensions, or open one's popup/options page in a tab",
+  },
   {
     path: ["resize"],
     tool: "browser_resize",
@@ -259,18 +414,164 @@ export const COMMANDS: CommandSpec[] = [
     ],
     summary: "Resize the viewport",
   },
+  {
+    path: ["headers"],
+    tool: "browser_set_headers",
+    flags: { header: { key: "headers", type: "string[]", desc: "Name=value (repeatable; none clears)" } },
+    summary: "Replace the extra HTTP headers on a live session",
+  },
+  {
+    path: ["permissions"],
+    tool: "browser_permissions",
+    positionals: [
+      { key: "action", required: false, desc: "grant|clear|list (default list)" },
+      { key: "permissions", required: false, desc: "grant: comma-separated names, e.g. geolocation,notifications" },
+    ],
+    flags: { origin: { type: "string", desc: "only this origin (default: every origin)" } },
+    summary: "Grant, clear or list permissions",
+  },
+  {
+    path: ["network-conditions"],
+    tool: "browser_network_conditions",
+    positionals: [{ key: "preset", required: false, desc: "slow-3g|fast-3g|offline" }],
+    flags: {
+      offline: { type: "boolean", desc: "fail every request as if offline" },
+      latency: { key: "latencyMs", type: "number", desc: "chromium: added latency in ms" },
+      download: { key: "downloadKbps", type: "number", desc: "chromium: download cap in kbps" },
+      upload: { key: "uploadKbps", type: "number", desc: "chromium: upload cap in kbps" },
+      cpu: { key: "cpuThrottlingRate", type: "number", desc: "chromium: CPU slowdown factor, e.g. 4" },
+      reset: { type: "boolean", desc: "drop all emulated conditions" },
+    },
+    summary: "Emulate offline/slow network and CPU (no args: show current)",
+  },
+  {
+    path: ["route"],
+    tool: "browser_route",
+    positionals: [
+      { key: "url", required: true, desc: "URL glob, e.g. '**/api/*' (a regex with --regex)" },
+      { key: "action", required: true, desc: "fulfill|abort|continue" },
+    ],
+    flags: {
+      regex: { type: "boolean", desc: "treat the url as a regular expression" },
+      method: { type: "string", desc: "only this HTTP method, e.g. POST" },
+      status: { type: "number", desc: "fulfill: status code (default 200)" },
+      header: { key: "headers", type: "string[]", desc: "fulfill: response header Name=value (repeatable)" },
+      "content-type": { key: "contentType", type: "string", desc: "fulfill: Content-Type" },
+      body: { type: "string", desc: "fulfill: response body" },
+      "body-file": { key: "bodyFile", type: "string", desc: "fulfill: serve this file as the body" },
+      "error-code": { key: "errorCode", type: "string", desc: "abort: network error, e.g. connectionrefused (default failed)" },
+      "set-header": { key: "setHeaders", type: "string[]", desc: "continue: request header Name=value (repeatable)" },
+      "post-data": { key: "postData", type: "string", desc: "continue: replacement request body" },
+      delay: { key: "delayMs", type: "number", desc: "hold matching requests this many ms first" },
+    },
+    summary: "Mock, block, delay or rewrite matching requests",
+  },
+  {
+    path: ["unroute"],
+    tool: "browser_unroute",
+    positionals: [{ key: "id", required: false, desc: "route id, e.g. r1" }],
+    flags: { all: { type: "boolean", desc: "remove every route" } },
+    summary: "Remove a route (or --all)",
+  },
+  { path: ["routes"], tool: "browser_routes", summary: "List routes with hit counts" },
+  {
+    path: ["block"],
+    tool: "browser_block",
+    flags: {
+      type: { key: "resourceTypes", type: "string", desc: "resource types, comma-separated, e.g. image,font,media,stylesheet" },
+      url: { key: "urls", type: "string[]", desc: "URL glob to block (repeatable)" },
+      trackers: { type: "boolean", desc: "block common ad/analytics hosts" },
+      clear: { type: "boolean", desc: "drop everything blocked so far first (alone: stop blocking)" },
+    },
+    summary: "Block resource types, URLs or trackers (no args: show blocked counts)",
+  },
+  {
+    path: ["har", "start"],
+    tool: "browser_har_start",
+    positionals: [{ key: "path", required: true, desc: ".har file to write" }],
+    flags: {
+      content: { type: "string", desc: "response bodies: embed|omit (default embed)" },
+      url: { key: "urlFilter", type: "string", desc: "only record URLs matching this glob" },
+    },
+    summary: "Start recording the session's traffic to a HAR",
+  },
+  { path: ["har", "stop"], tool: "browser_har_stop", summary: "Stop the HAR recording and write the file" },
+  {
+    path: ["route-from-har"],
+    tool: "browser_route_from_har",
+    positionals: [{ key: "path", required: true, desc: ".har file to replay" }],
+    flags: {
+      url: { type: "string", desc: "only serve URLs matching this glob from the HAR" },
+      "not-found": { key: "notFound", type: "string", desc: "requests missing from the HAR: abort|fallback (default abort)" },
+    },
+    summary: "Answer requests from a recorded HAR",
+  },
+  {
+    path: ["geolocation"],
+    tool: "browser_set_geolocation",
+    positionals: [
+      { key: "latitude", required: false, desc: "latitude" },
+      { key: "longitude", required: false, desc: "longitude" },
+    ],
+    flags: {
+      accuracy: { type: "number", desc: "accuracy in meters" },
+      clear: { type: "boolean", desc: "stop emulating a position" },
+    },
+    summary: "Set or clear the emulated geolocation",
+  },
   {
     path: ["console"],
     tool: "browser_console_messages",
-    flags: { clear: { type: "boolean", desc: "clear after retrieving" } },
+    flags: {
+      clear: { type: "boolean", desc: "clear the returned messages" },
+      tab: { type: "string", desc: "only this tab id, e.g. t2" },
+      level: { key: "levels", type: "string", desc: "only these types, comma-separated, e.g. error,warning" },
+      pattern: { type: "string", desc: "regex the message text must match" },
+      url: { type: "string", desc: "glob the page URL must match" },
+      since: { type: "string", desc: "only entries at/after this time (epoch ms or ISO date)" },
+      "after-seq": { key: "afterSeq", type: "number", desc: "only entries with a higher seq" },
+    },
     summary: "Get console messages",
   },
   {
     path: ["network"],
     tool: "browser_network_requests",
-    flags: { clear: { type: "boolean", desc: "clear after retrieving" } },
+    flags: {
+      clear: { type: "boolean", desc: "clear the returned requests" },
+      tab: { type: "string", desc: "only this tab id, e.g. t2" },
+      pattern: { type: "string", desc: "regex the URL must match" },
+      url: { type: "string", desc: "glob the URL must match, e.g. '**/api/**'" },
+      method: { type: "string", desc: "only this HTTP method" },
+      status: { key: "statusRange", type: "string", desc: "status or range, e.g. 404 or 400-599" },
+      type: { key: "resourceTypes", type: "string", desc: "resource types, comma-separated, e.g. fetch,xhr" },
+      since: { type: "string", desc: "only entries at/after this time (epoch ms or ISO date)" },
+      "after-seq": { key: "afterSeq", type: "number", desc: "only entries with a higher seq (the number in the id)" },
+    },
     summary: "Get network requests",
   },
+  {
+    path: ["network", "show"],
+    tool: "browser_network_request",
+    positionals: [{ key: "id", required: true, desc: "request id, e.g. n12" }],
+    flags: { "max-bytes": { key: "maxBytes", type: "number", desc: "response body bytes to show (default 65536)" } },
+    summary: "Show one request's headers, post data and response body",
+  },
+  {
+    path: ["websockets"],
+    tool: "browser_websockets",
+    flags: {
+      clear: { type: "boolean", desc: "clear the returned events" },
+      tab: { type: "string", desc: "only this tab id, e.g. t2" },
+      connection: { key: "connectionId", type: "string", desc: "only this connection, e.g. ws2 or sse1" },
+      protocol: { type: "string", desc: "websocket|sse" },
+      type: { key: "types", type: "string", desc: "event types, comma-separated: open,sent,received,close,error" },
+      pattern: { type: "string", desc: "regex the payload must match" },
+      url: { type: "string", desc: "glob the connection URL must match" },
+      since: { type: "string", desc: "only events at/after this time (epoch ms or ISO date)" },
+      "after-seq": { key: "afterSeq", type: "number", desc: "only events with a higher seq" },
+    },
+    summary: "Get WebSocket and SSE traffic",
+  },
   {
     path: ["download", "list"],
     tool: "browser_downloads",
@@ -287,13 +588,19 @@ export const COMMANDS: CommandSpec[] = [
   {
     path: ["tabs"],
     tool: "browser_tabs",
-    positionals: [{ key: "action", required: false, desc: "list|new|switch|close (default list)" }],
-    flags: { index: { type: "number", desc: "tab index" }, url: { type: "string", desc: "URL for new tab" } },
-    summary: "List/switch/close tabs",
+    positionals: [{ key: "action", required: false, desc: "list|new|switch|close|wait_new (default list)" }],
+    flags: {
+      id: { type: "string", desc: "tab id, e.g. t2" },
+      index: { type: "number", desc: "tab index" },
+      url: { type: "string", desc: "URL for new tab" },
+      switch: { type: "boolean", desc: "wait_new: switch to the new tab" },
+      timeout: TIMEOUT,
+    },
+    summary: "List/open/switch/close tabs, or wait for a new one",
   },
 ];
 
-const NUMERIC_POSITIONALS = new Set(["width", "height"]);
+const NUMERIC_POSITIONALS = new Set(["width", "height", "latitude", "longitude", "scale"]);
 
 export interface Parsed {
   spec: CommandSpec;
@@ -425,6 +732,96 @@ function buildArgs(spec: CommandSpec, positionals: string[], flags: Record<strin
     args.env = obj;
   }
 
+  // --label K=V (repeatable) -> labels object (split on FIRST '=')
+  if (Array.isArray(args.labels)) {
+    const obj: Record<string, string> = {};
+    for (const kv of args.labels as string[]) {
+      const eq = kv.indexOf("=");
+      if (eq < 0) throw new CliError(`--label expects K=V, got: ${kv}`);
+      obj[kv.slice(0, eq)] = kv.slice(eq + 1);
+    }
+    args.labels = obj;
+  }
+
+  // --header / --set-header Name=value (repeatable) -> headers object (split on FIRST '='); `bp headers` with none clears
+  for (const key of ["extraHTTPHeaders", "headers", "setHeaders"]) {
+    if (!Array.isArray(args[key])) continue;
+    const obj: Record<string, string> = {};
+    for (const kv of args[key] as string[]) {
+      const eq = kv.indexOf("=");
+      if (eq < 0) throw new CliError(`--${key === "setHeaders" ? "set-header" : "header"} expects Name=value, got: ${kv}`);
+      obj[kv.slice(0, eq)] = kv.slice(eq + 1);
+    }
+    args[key] = obj;
+  }
+  if (spec.tool === "browser_set_headers" && args.headers === undefined) args.headers = {};
+
+  // --proxy/--proxy-* -> proxy { server, bypass, username, password }
+  if (typeof args.proxyServer === "string") {
+    args.proxy = { server: args.proxyServer, bypass: args.proxyBypass, username: args.proxyUsername, password: args.proxyPassword };
+  } else if (args.proxyBypass !== undefined || args.proxyUsername !== undefined || args.proxyPassword !== undefined) {
+    throw new CliError("--proxy-bypass/--proxy-username/--proxy-password need --proxy");
+  }
+  delete args.proxyServer;
+  delete args.proxyBypass;
+  delete args.proxyUsername;
+  delete args.proxyPassword;
+
+  // --http-credentials user:pass -> { username, password } (split on FIRST ':')
+  if (typeof args.httpCredentials === "string") {
+    const cred = args.httpCredentials as string;
+    const colon = cred.indexOf(":");
+    if (colon < 0) throw new CliError(`--http-credentials expects user:pass, got: ${cred}`);
+    args.httpCredentials = { username: cred.slice(0, colon), password: cred.slice(colon + 1) };
+  }
+
+  // --permission (repeatable) / `permissions grant a,b` -> permissions[] (commas split either way)
+  if (typeof args.permissions === "string" || Array.isArray(args.permissions)) {
+    args.permissions = ([] as string[]).concat(args.permissions as string | string[]).flatMap((p) => p.split(",")).filter((p) => p !== "");
+  }
+
+  // --geolocation lat,lng[,accuracy] -> { latitude, longitude, accuracy? }
+  if (typeof args.geolocation === "string") {
+    const parts = (args.geolocation as string).split(",").map(Number);
+    if (parts.length < 2 || parts.length > 3 || parts.some((n) => !Number.isFinite(n))) {
+      throw new CliError(`--geolocation expects lat,lng[,accuracy], got: ${args.geolocation}`);
+    }
+    args.geolocation = { latitude: parts[0], longitude: parts[1], ...(parts.length === 3 ? { accuracy: parts[2] } : {}) };
+  }
+
+  // --level / --type a,b -> levels[] / resourceTypes[] / types[]
+  for (const key of ["levels", "resourceTypes", "types", "blockResourceTypes"]) {
+    if (typeof args[key] === "string") args[key] = (args[key] as string).split(",").filter((v) => v !== "");
+  }
+  // --block-type / --block-url / --block-trackers -> blockResources { resourceTypes, urls, trackers }
+  if (args.blockResourceTypes !== undefined || args.blockUrls !== undefined || args.blockTrackers !== undefined) {
+    args.blockResources = { resourceTypes: args.blockResourceTypes, urls: args.blockUrls, trackers: args.blockTrackers };
+    delete args.blockResourceTypes;
+    delete args.blockUrls;
+    delete args.blockTrackers;
+  }
+  // --status 404 | 400-599 -> statusMin/statusMax
+  if (typeof args.statusRange === "string") {
+    const m = /^(\d{3})(?:-(\d{3}))?$/.exec(args.statusRange as string);
+    if (!m) throw new CliError(`--status expects a status or range like 400-599, got: ${args.statusRange}`);
+    args.statusMin = Number(m[1]);
+    args.statusMax = Number(m[2] ?? m[1]);
+    delete args.statusRange;
+  }
+  // --since epoch-ms | ISO date -> epoch ms
+  if (typeof args.since === "string") {
+    const since = /^\d+$/.test(args.since as string) ? Number(args.since) : Date.parse(args.since as string);
+    if (Number.isNaN(since)) throw new CliError(`--since expects epoch ms or an ISO date, got: ${args.since}`);
+    args.since = since;
+  }
+
+  // --viewport WxH -> { width, height }
+  if (typeof args.viewport === "string") {
+    const m = /^(\d+)x(\d+)$/.exec(args.viewport as string);
+    if (!m) throw new CliError(`--viewport expects WxH, got: ${args.viewport}`);
+    args.viewport = { width: Number(m[1]), height: Number(m[2]) };
+  }
+
   // --field and --fields-json are mutually exclusive (otherwise fields-json would silently win).
   if (Array.isArray(args.field) && typeof args.fields === "string") {
     throw new CliError("use either --field or --fields-json, not both");
@@ -454,14 +851,29 @@ function buildArgs(spec: CommandSpec, positionals: string[], flags: Record<strin
   ) {
     args.savePath = path.resolve(process.cwd(), args.savePath as string);
   }
+  // --profile-dir: resolve against the caller's cwd, not the daemon's
+  if (typeof args.userDataDir === "string") {
+    args.userDataDir = path.resolve(process.cwd(), args.userDataDir as string);
+  }
+  // --extension: same, for each extension dir
+  if (Array.isArray(args.extensions)) {
+    args.extensions = (args.extensions as string[]).map((dir) => path.resolve(process.cwd(), dir));
+  }
+  // --body-file / --replay-har / HAR paths: same (the daemon rejects relative ones)
+  for (const key of ["bodyFile", "replayHar"]) {
+    if (typeof args[key] === "string") args[key] = path.resolve(process.cwd(), args[key] as string);
+  }
+  if ((spec.tool === "browser_har_start" || spec.tool === "browser_route_from_har") && typeof args.path === "string") {
+    args.path = path.resolve(process.cwd(), args.path as string);
+  }
 
-  // eval / electron-eval: script from positional, or stdin when omitted / '-'
-  if (spec.tool === "browser_evaluate" || spec.tool === "electron_evaluate") {
+  // eval / electron-eval / init-script add: script from positional, or stdin when omitted / '-'
+  if (spec.tool === "browser_evaluate" || spec.tool === "electron_evaluate" || spec.tool === "browser_add_init_script") {
     const s = args.script;
     if (s === undefined || s === "-") {
       args.script = readFileSync(0, "utf8");
     }
-    if (!args.script) throw new CliError("eval needs a script (positional or stdin)");
+    if (!args.script) throw new CliError(`${spec.path.join(" ")} needs a script (positional or stdin)`);
   }
 
   return args;
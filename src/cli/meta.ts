@@ -3,6 +3,7 @@ import { spawn } from "node:child_process";
 import { promises as fs } from "node:fs";
 import { DaemonClient, DAEMON_ENTRY } from "../daemon/client.js";
 import { SOCKET_PATH, PID_PATH } from "../daemon/protocol.js";
+import type { WarmPoolStats } from "../core/types.js";
 
 const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 
@@ -47,13 +48,21 @@ export async function status(): Promise<number> {
   }
   try {
     const res = await client.request("__daemon_status");
-    const d = (res.data ?? {}) as { pid?: number; sessions?: string[]; uptimeMs?: number };
+    const d = (res.data ?? {}) as { pid?: number; sessions?: string[]; uptimeMs?: number; warmPool?: WarmPoolStats | null };
     const sessions = d.sessions ?? [];
     // eslint-disable-next-line no-console
     console.log(
       `running (pid ${d.pid ?? "?"}), ${sessions.length} session(s)` +
         (sessions.length ? `: ${sessions.join(", ")}` : ""),
     );
+    if (d.warmPool) {
+      const w = d.warmPool;
+      // eslint-disable-next-line no-console
+      console.log(
+        `warm pool: ${w.ready}/${w.size} ready (${w.type}${w.headless ? " headless" : ""}` +
+          `${w.launching ? `, ${w.launching} launching` : ""}), ${w.hits} hit(s), ${w.misses} miss(es)`,
+      );
+    }
     return 0;
   } finally {
     client.close();
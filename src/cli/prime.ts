@@ -109,6 +109,9 @@ dialog). Set \`--executable-path\` to the target app's Electron binary (bp does
   \`bp serve\` — run it in the foreground (logs to the terminal).
 - \`BROWSERPLEX_IDLE_MS\` — idle-exit grace in ms (default 300000; \`0\` disables).
 - \`BROWSERPLEX_DIR\` — relocate the runtime dir (socket/pid/log + stored sessions; default ~/.browserplex).
+- \`BROWSERPLEX_WARM_POOL\` — keep N headless chromium browsers pre-launched for instant \`session create\` (default 0).
+- \`BROWSERPLEX_CLIENT\` — your name as recorded on sessions you create (\`owner\` in \`session list\`).
+- \`BROWSERPLEX_PERSIST=1\` — save sessions across daemon restarts; they come back (dormant) on first use.
 
 ## Full command reference
 Every browser command also accepts the global flags \`-s/--session <name>\` and \`--json\` (omitted from
@@ -1,8 +1,13 @@
 import { promises as fs } from "node:fs";
+import * as path from "node:path";
 import { sessionManager } from "./sessions.js";
 import { storageManager } from "./storage.js";
 import { getEnhancedSnapshot, getSnapshotStats } from "./snapshot.js";
-import { getLocator, getSnapshotRoot, withFriendlyError } from "./locator.js";
+import { getLocator, getSnapshotRoot, getFrameOwner, withFriendlyError } from "./locator.js";
+import { clipToViewport, swipeStroke, pinchStrokes, dispatchTouchGesture, dispatchSyntheticSwipe, type Box, type SwipeDirection } from "./gestures.js";
+import { isTextMime, HAR_CONTENT_MODES, HAR_NOT_FOUND_MODES, type HarContent } from "./har.js";
+import { filterConsole, filterNetwork, filterRealtime, isFiltered } from "./logs.js";
+import { validateBlockSpec, describeBlockSpec } from "./blocking.js";
 
 /**
  * Normalize the `frame` argument to a string[] chain (outermost first), or
@@ -20,8 +25,8 @@ function normalizeFrame(frame: unknown): string[] | undefined {
   }
   throw new Error(`frame must be a string or string[], got ${typeof frame}`);
 }
-import type { ElectronApplication } from "playwright";
-import type { ActionResult, BrowserType, BrowserSession } from "./types.js";
+import type { ElectronApplication, Locator, Page, Request, Response } from "playwright";
+import type { ActionResult, BrowserType, BrowserSession, EmulationOptions, ContextNetworkOptions, SessionFilter, PermissionGrant, Geolocation, NetworkConditions, NetworkRequest, ConsoleFilter, NetworkFilter, LogFilter, RealtimeEvent, RealtimeFilter, NetworkWaitSpec, RouteRule, RouteSpec, HarReplay, BlockSpec } from "./types.js";
 
 /**
  * Core actions: one async function per tool. Each returns an ActionResult or
@@ -42,6 +47,71 @@ function resolveHeadless(args: { headless?: boolean; headed?: boolean }): boolea
   return args.headless ?? true;
 }
 
+/** Pick the emulation fields out of session_create/storage_load's flat args; undefined when none are set. */
+function emulationFrom(args: EmulationOptions): EmulationOptions | undefined {
+  const emulation: EmulationOptions = {
+    device: args.device,
+    viewport: args.viewport,
+    deviceScaleFactor: args.deviceScaleFactor,
+    isMobile: args.isMobile,
+    hasTouch: args.hasTouch,
+    userAgent: args.userAgent,
+    locale: args.locale,
+    timezoneId: args.timezoneId,
+    colorScheme: args.colorScheme,
+    reducedMotion: args.reducedMotion,
+  };
+  return Object.values(emulation).some((v) => v !== undefined) ? emulation : undefined;
+}
+
+/** Pick the proxy/auth/header fields out of session_create/storage_load's flat args; undefined when none are set. */
+function networkFrom(args: ContextNetworkOptions): ContextNetworkOptions | undefined {
+  const network: ContextNetworkOptions = {
+    proxy: args.proxy,
+    httpCredentials: args.httpCredentials,
+    extraHTTPHeaders: args.extraHTTPHeaders,
+    ignoreHTTPSErrors: args.ignoreHTTPSErrors,
+  };
+  return Object.values(network).some((v) => v !== undefined) ? network : undefined;
+}
+
+/** session_create's flat permissions/permissionsOrigin as a single recorded grant. */
+function permissionsFrom(args: { permissions?: string[]; permissionsOrigin?: string }): PermissionGrant[] | undefined {
+  if (!args.permissions?.length) {
+    if (args.permissionsOrigin !== undefined) throw new Error("permissionsOrigin needs permissions");
+    return undefined;
+  }
+  return [args.permissionsOrigin ? { permissions: args.permissions, origin: args.permissionsOrigin } : { permissions: args.permissions }];
+}
+
+/** One-line summary of network conditions, e.g. "slow-3g: 2000ms latency, 400kbps down, 400kbps up". */
+function describeNetworkConditions(c: NetworkConditions): string {
+  const parts = [
+    c.offline ? "offline" : "",
+    c.latencyMs !== undefined ? `${c.latencyMs}ms latency` : "",
+    c.downloadKbps !== undefined ? `${c.downloadKbps}kbps down` : "",
+    c.uploadKbps !== undefined ? `${c.uploadKbps}kbps up` : "",
+    c.cpuThrottlingRate !== undefined ? `CPU ${c.cpuThrottlingRate}x slower` : "",
+  ].filter((p) => p !== "");
+  return `${c.preset ? `${c.preset}: ` : ""}${parts.join(", ")}`;
+}
+
+function describeGrant(g: PermissionGrant): string {
+  return `${g.permissions.join(", ")} for ${g.origin ?? "all origins"}`;
+}
+
+/** One-line summary of a session's emulation for session_list text output. */
+function describeEmulation(e: EmulationOptions): string {
+  const parts = [
+    e.device,
+    e.viewport ? `${e.viewport.width}x${e.viewport.height}` : undefined,
+    e.locale,
+    e.timezoneId,
+    e.colorScheme,
+  ].filter((p): p is string => p !== undefined);
+  return parts.join(", ");
+}
+
 function tauriSession(s: BrowserSession) {
   return s.type === "tauri" ? s.tauri : undefined;
 }
@@ -133,11 +203,41 @@ async function submitFromFocusedControl(locator: ReturnType<typeof getLocator>,
   });
 }
 
-export async function sessionCreate(args: {
+export async function sessionCreate(args: EmulationOptions & ContextNetworkOptions & {
   name: string;
   type?: BrowserType;
   headless?: boolean;
   headed?: boolean;
+  // chromium/firefox/webkit/camoufox: persistent profile directory
+  userDataDir?: string;
+  // attach mode: connect to an already-running browser instead of launching one
+  cdpUrl?: string;
+  wsEndpoint?: string;
+  // share one browser process per (type, headless) with other pooled sessions
+  pooled?: boolean;
+  // chromium: unpacked extension directories to load (absolute paths)
+  extensions?: string[];
+  // permissions granted up front, for permissionsOrigin or every origin; emulated position
+  permissions?: string[];
+  permissionsOrigin?: string;
+  geolocation?: Geolocation;
+  // HAR file (absolute path) to answer requests from; requests not in it are aborted
+  replayHar?: string;
+  // resource types, URL globs and ad/analytics hosts aborted before they leave the browser
+  blockResources?: BlockSpec;
+  // wrap WebSocket/EventSource in pages so SSE messages and close codes are logged too
+  captureRealtime?: boolean;
+  // lease: absolute lifetime / inactivity limit, after which the session is destroyed
+  ttlMs?: number;
+  idleTimeoutMs?: number;
+  // relaunch the session (same type, last storage state + URL) if its page crashes or browser dies
+  autoRecover?: boolean;
+  // scripts run before any page script on every navigation (see browser_add_init_script)
+  initScripts?: string[];
+  // metadata for telling sessions apart in session_list; owner is filled in by the frontend
+  labels?: Record<string, string>;
+  description?: string;
+  owner?: string;
   // electron-only launch options (ignored for other types)
   electronArgs?: string[];
   executablePath?: string;
@@ -151,6 +251,21 @@ export async function sessionCreate(args: {
   startupTimeoutMs?: number;
 }): Promise<ActionResult> {
   const browserType = args.type ?? "chromium";
+  if (args.userDataDir !== undefined && !path.isAbsolute(args.userDataDir)) {
+    throw new Error("userDataDir must be an absolute path");
+  }
+  if (args.extensions?.some((dir) => !path.isAbsolute(dir))) {
+    throw new Error("extensions must be absolute paths");
+  }
+  if (args.replayHar !== undefined && !path.isAbsolute(args.replayHar)) {
+    throw new Error("replayHar must be an absolute path");
+  }
+  if (args.blockResources) {
+    validateBlockSpec(args.blockResources);
+  }
+  if (args.initScripts?.length && browserType === "tauri") {
+    throw new Error("initScripts are not supported for tauri sessions");
+  }
   // All browser types default to headless; `headed` (or headless:false) opts into a visible window.
   // Electron always opens a real window regardless.
   const useHeadless = browserType === "electron" ? false : resolveHeadless(args);
@@ -168,20 +283,100 @@ export async function sessionCreate(args: {
           windowOwner: args.windowOwner,
           startupTimeoutMs: args.startupTimeoutMs,
         }
-      : undefined;
-  await sessionManager.create(args.name, browserType, useHeadless, launch);
-  return { text: `Created ${browserType} session '${args.name}'${useHeadless ? "" : " (headed)"}` };
+      : { userDataDir: args.userDataDir, cdpUrl: args.cdpUrl, wsEndpoint: args.wsEndpoint, emulation: emulationFrom(args), network: networkFrom(args), pooled: args.pooled, extensions: args.extensions, permissions: permissionsFrom(args), geolocation: args.geolocation, replayHar: args.replayHar, blockResources: args.blockResources, captureRealtime: args.captureRealtime };
+  const session = await sessionManager.create(args.name, browserType, useHeadless, launch);
+  try {
+    if (args.ttlMs !== undefined || args.idleTimeoutMs !== undefined) {
+      sessionManager.setLease(args.name, { ttlMs: args.ttlMs, idleTimeoutMs: args.idleTimeoutMs });
+    }
+    if (args.autoRecover) {
+      await sessionManager.setAutoRecover(args.name, true);
+    }
+    sessionManager.setMetadata(args.name, { labels: args.labels, description: args.description, owner: args.owner });
+    for (const script of args.initScripts ?? []) {
+      await sessionManager.addInitScript(args.name, script);
+    }
+  } catch (e) {
+    // Don't leave a half-configured session holding the name
+    await sessionManager.destroy(args.name).catch(() => {});
+    throw e;
+  }
+  if (session.attachedTo) {
+    return { text: `Attached ${browserType} session '${args.name}' to ${session.attachedTo}` };
+  }
+  return {
+    text:
+      `Created ${browserType} session '${args.name}'${useHeadless ? "" : " (headed)"}` +
+      (args.userDataDir ? ` with profile ${args.userDataDir}` : "") +
+      (args.extensions?.length ? ` with ${args.extensions.length} extension${args.extensions.length === 1 ? "" : "s"}` : "") +
+      (args.replayHar ? `, replaying ${args.replayHar}` : "") +
+      (args.blockResources ? `, blocking ${describeBlockSpec(args.blockResources)}` : ""),
+  };
 }
 
-export async function sessionList(): Promise<ActionResult> {
-  const sessions = sessionManager.list();
+export async function sessionList(args: SessionFilter = {}): Promise<ActionResult> {
+  const sessions = sessionManager.list(args);
   if (sessions.length === 0) {
-    return { text: "No active sessions", data: [] };
+    const filtered = Object.values(args).some((v) => v !== undefined);
+    return { text: filtered ? "No sessions match the filter" : "No active sessions", data: [] };
   }
-  const lines = sessions.map((s) => `- ${s.name} (${s.type}): ${s.url}`);
+  const lines = sessions.map((s) => {
+    const labels = s.labels ? Object.entries(s.labels).map(([k, v]) => `${k}=${v}`).join(", ") : "";
+    const tags = [
+      labels ? `labels: ${labels}` : "",
+      `${s.tabs} tab${s.tabs === 1 ? "" : "s"}`,
+      s.owner ? `owner: ${s.owner}` : "",
+      s.userDataDir ? `profile: ${s.userDataDir}` : "",
+      s.extensions ? `extensions: ${s.extensions.length}` : "",
+      s.permissions ? `permissions: ${s.permissions.map(describeGrant).join("; ")}` : "",
+      s.geolocation ? `geolocation: ${s.geolocation.latitude},${s.geolocation.longitude}` : "",
+      s.networkConditions ? `network: ${describeNetworkConditions(s.networkConditions)}` : "",
+      s.harRecording ? `recording HAR: ${s.harRecording}` : "",
+      s.attachedTo ? `attached: ${s.attachedTo}` : "",
+      s.emulation ? describeEmulation(s.emulation) : "",
+      s.pool ? `pool: ${s.pool}${s.sharedWith?.length ? `, shared with ${s.sharedWith.join(", ")}` : ""}` : "",
+      s.expiresInMs !== undefined ? `expires in ${Math.ceil(s.expiresInMs / 1000)}s` : "",
+      s.status === "dead" ? `dead: ${s.deadReason}${s.autoRecover ? ", recovers on next action" : ""}` : "",
+      s.status === "dormant" ? "saved by a previous daemon run, restored on first use" : "",
+    ].filter((t) => t !== "");
+    const line = `- ${s.name} (${s.type}): ${s.url}${tags.map((t) => ` [${t}]`).join("")}`;
+    return s.description ? `${line}\n    ${s.description}` : line;
+  });
   return { text: `Active sessions:\n${lines.join("\n")}`, data: sessions };
 }
 
+export async function sessionFork(args: { source: string; name: string; owner?: string }): Promise<ActionResult> {
+  const fork = await sessionManager.fork(args.source, args.name);
+  sessionManager.setMetadata(args.name, { owner: args.owner });
+  const tabs = fork.context.pages().length;
+  return {
+    text: `Forked session '${args.source}' into '${args.name}' (${tabs} tab${tabs === 1 ? "" : "s"}, at ${fork.page.url()})`,
+  };
+}
+
+export async function sessionTouch(args: { name: string }): Promise<ActionResult> {
+  await sessionManager.acquire(args.name);
+  const expiresInMs = sessionManager.touch(args.name);
+  if (expiresInMs === undefined) {
+    return { text: `Session '${args.name}' has no lease`, data: { name: args.name } };
+  }
+  return {
+    text: `Renewed session '${args.name}' (expires in ${Math.ceil(expiresInMs / 1000)}s)`,
+    data: { name: args.name, expiresInMs },
+  };
+}
+
+/**
+ * Prefix a result with the auto-recovery note of the session the call targeted, if one is
+ * pending, so the first action after a recovery says it happened. Frontends pass every tool
+ * result through here.
+ */
+export function withRecoveryNotice(args: Record<string, unknown>, result: ActionResult): ActionResult {
+  const notice = typeof args.session === "string" ? sessionManager.takeRecoveryNotice(args.session) : undefined;
+  if (!notice) return result;
+  return { ...result, text: result.text ? `${notice}\n${result.text}` : notice };
+}
+
 export async function sessionDestroy(args: { name: string }): Promise<ActionResult> {
   await sessionManager.destroy(args.name);
   return { text: `Destroyed session '${args.name}'` };
@@ -194,20 +389,22 @@ export async function storageSave(args: {
   domain: string;
   name?: string;
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "storage_save");
   const storageName = args.name ?? "default";
   await storageManager.save(s.context, args.domain, storageName);
   return { text: `Saved session '${storageName}' for ${args.domain}` };
 }
 
-export async function storageLoad(args: {
+export async function storageLoad(args: EmulationOptions & ContextNetworkOptions & {
   name: string;
   domain: string;
   storageName?: string;
   type?: BrowserType;
   headless?: boolean;
   headed?: boolean;
+  pooled?: boolean;
+  owner?: string;
 }): Promise<ActionResult> {
   const browserType = args.type ?? "chromium";
   if (browserType === "tauri") {
@@ -216,7 +413,8 @@ export async function storageLoad(args: {
   const storage = args.storageName ?? "default";
   const storageState = await storageManager.load(args.domain, storage);
   const useHeadless = resolveHeadless(args); // headless by default; --headed opts in
-  await sessionManager.createWithStorage(args.name, browserType, useHeadless, storageState);
+  await sessionManager.createWithStorage(args.name, browserType, useHeadless, storageState, { emulation: emulationFrom(args), network: networkFrom(args), pooled: args.pooled });
+  sessionManager.setMetadata(args.name, { owner: args.owner });
   return {
     text: `Created ${browserType} session '${args.name}' with stored session '${storage}' for ${args.domain}`,
   };
@@ -256,14 +454,14 @@ export async function storageUnlock(args: { domain: string }): Promise<ActionRes
 // ---- Navigation ----
 
 export async function browserNavigate(args: { session: string; url: string }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_navigate");
   await s.page.goto(args.url, { waitUntil: "domcontentloaded" });
   return { text: `Navigated to ${args.url}` };
 }
 
 export async function browserNavigateBack(args: { session: string }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_navigate_back");
   await s.page.goBack();
   return { text: `Navigated back to ${s.page.url()}` };
@@ -277,7 +475,7 @@ export async function browserSnapshot(args: {
   selector?: string;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   const tauri = tauriSession(s);
   if (tauri) {
     const result = await tauri.command({
@@ -345,7 +543,7 @@ export async function browserTakeScreenshot(args: {
     throw new Error("savePath must be an absolute path");
   }
 
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   const tauri = tauriSession(s);
   if (tauri) {
     const rawBuffer = await tauri.screenshot(args.savePath);
@@ -399,7 +597,7 @@ export async function browserClick(args: {
   timeout?: number;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   const t = args.timeout ?? 5000;
   const tauri = tauriSession(s);
   if (tauri) {
@@ -420,7 +618,7 @@ export async function browserType(args: {
   timeout?: number;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   const t = args.timeout ?? 5000;
   const tauri = tauriSession(s);
   if (tauri) {
@@ -444,7 +642,7 @@ export async function browserType(args: {
 }
 
 export async function browserPressKey(args: { session: string; key: string }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_press_key");
   // keyboard.press dispatches at the page level, not at an element — so it
   // operates on whichever element currently has focus (which can be inside
@@ -461,7 +659,7 @@ export async function browserHover(args: {
   timeout?: number;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_hover");
   const t = args.timeout ?? 5000;
   const frame = normalizeFrame(args.frame);
@@ -470,6 +668,113 @@ export async function browserHover(args: {
   return { text: `Hovering over '${args.selector}'${frame ? ` (in iframe ${frame.join(" >> ")})` : ""}` };
 }
 
+/** Touch input only reaches pages of a context created with hasTouch (directly or via a device preset). */
+function requireTouch(s: BrowserSession, action: string): void {
+  if (!s.emulation?.hasTouch) {
+    throw new Error(`${action} needs a touch-enabled session: create it with hasTouch (--touch) or a mobile device preset (--device 'iPhone 13')`);
+  }
+}
+
+/** CDP touch input drives the real input pipeline; other engines get page-level TouchEvents. */
+function hasCdpTouch(s: BrowserSession): boolean {
+  return s.type === "chromium" || s.type === "electron";
+}
+
+/**
+ * What a swipe or pinch acts on: the element, or without a selector the iframe at the end of the
+ * frame chain, or the whole viewport. Returns its visible box in main-viewport CSS pixels.
+ */
+async function gestureTarget(s: BrowserSession, selector: string | undefined, frame: string[] | undefined, timeout: number): Promise<{ target: Locator; box: Box }> {
+  const target = selector ? getLocator(s, selector, frame) : frame ? getFrameOwner(s, frame) : s.page.locator(":root");
+  const label = selector ?? (frame ? frame[frame.length - 1] : ":root");
+  const box = await withFriendlyError(label, async () => {
+    if (selector || frame) await target.scrollIntoViewIfNeeded({ timeout });
+    return target.boundingBox({ timeout });
+  });
+  if (!box) {
+    throw new Error(`Element "${label}" is not visible. Try scrolling it into view or check if it's hidden.`);
+  }
+  const viewport = s.page.viewportSize() ?? (await s.page.evaluate(() => ({ width: innerWidth, height: innerHeight })));
+  return { target, box: clipToViewport(box, viewport) };
+}
+
+export async function browserTap(args: {
+  session: string;
+  selector: string;
+  timeout?: number;
+  frame?: string | string[];
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_tap");
+  requireTouch(s, "browser_tap");
+  const t = args.timeout ?? 5000;
+  const frame = normalizeFrame(args.frame);
+  const locator = getLocator(s, args.selector, frame);
+  await withFriendlyError(args.selector, () => locator.tap({ timeout: t }));
+  return { text: `Tapped '${args.selector}'${frameNote(frame)}` };
+}
+
+export async function browserSwipe(args: {
+  session: string;
+  direction: SwipeDirection;
+  // element to swipe on; omitted = the viewport (or the iframe, with frame)
+  selector?: string;
+  // px the finger travels; default 60% of the target along the swipe axis
+  distance?: number;
+  durationMs?: number;
+  timeout?: number;
+  frame?: string | string[];
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_swipe");
+  const t = args.timeout ?? 5000;
+  const duration = args.durationMs ?? 300;
+  const steps = Math.max(5, Math.round(duration / 16));
+  const frame = normalizeFrame(args.frame);
+  const where = `${args.selector ? ` on '${args.selector}'` : ""}${frameNote(frame)}`;
+  if (hasCdpTouch(s)) {
+    const { box } = await gestureTarget(s, args.selector, frame, t);
+    const stroke = swipeStroke(box, args.direction, args.distance);
+    await dispatchTouchGesture(await sessionManager.cdp(s), [stroke], duration, steps);
+    const px = Math.round(Math.hypot(stroke.to.x - stroke.from.x, stroke.to.y - stroke.from.y));
+    return { text: `Swiped ${args.direction} ${px}px${where}` };
+  }
+  // No CDP: fire TouchEvents from page JS, in the coordinates of the target's own frame
+  requireTouch(s, "browser_swipe");
+  const target = args.selector ? getLocator(s, args.selector, frame) : getSnapshotRoot(s, frame);
+  const { box, viewport } = await withFriendlyError(args.selector ?? ":root", () =>
+    target.evaluate((el) => {
+      const r = el.getBoundingClientRect();
+      return { box: { x: r.x, y: r.y, width: r.width, height: r.height }, viewport: { width: innerWidth, height: innerHeight } };
+    }, undefined, { timeout: t }),
+  );
+  const stroke = swipeStroke(clipToViewport(box, viewport), args.direction, args.distance);
+  await dispatchSyntheticSwipe(target, stroke, duration, steps);
+  return { text: `Swiped ${args.direction}${where} (page touch events only; ${s.type} has no native touch input, so the browser itself does not scroll)` };
+}
+
+export async function browserPinch(args: {
+  session: string;
+  // final finger spread relative to the start: >1 zooms in, <1 zooms out
+  scale: number;
+  selector?: string;
+  durationMs?: number;
+  timeout?: number;
+  frame?: string | string[];
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_pinch");
+  if (!hasCdpTouch(s)) {
+    throw new Error(`browser_pinch needs chromium (two-finger input goes over CDP); ${s.type} sessions can't pinch`);
+  }
+  const t = args.timeout ?? 5000;
+  const duration = args.durationMs ?? 400;
+  const frame = normalizeFrame(args.frame);
+  const { box } = await gestureTarget(s, args.selector, frame, t);
+  await dispatchTouchGesture(await sessionManager.cdp(s), pinchStrokes(box, args.scale), duration, Math.max(5, Math.round(duration / 16)));
+  return { text: `Pinched ${args.scale > 1 ? "out (zoom in)" : "in (zoom out)"} to ${args.scale}x${args.selector ? ` on '${args.selector}'` : ""}${frameNote(frame)}` };
+}
+
 export async function browserDrag(args: {
   session: string;
   sourceSelector: string;
@@ -477,7 +782,7 @@ export async function browserDrag(args: {
   timeout?: number;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_drag");
   const t = args.timeout ?? 5000;
   // Drag both source and target inside the same iframe chain. Cross-frame
@@ -499,7 +804,7 @@ export async function browserSelectOption(args: {
   timeout?: number;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_select_option");
   const t = args.timeout ?? 5000;
   const frame = normalizeFrame(args.frame);
@@ -524,7 +829,7 @@ export async function browserFileUpload(args: {
   timeout?: number;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_file_upload");
   const t = args.timeout ?? 5000;
   const frame = normalizeFrame(args.frame);
@@ -539,7 +844,7 @@ export async function browserFillForm(args: {
   timeout?: number;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_fill_form");
   const t = args.timeout ?? 5000;
   // All fields share the same iframe scope — typical for multi-field forms
@@ -560,7 +865,7 @@ export async function browserHandleDialog(args: {
   action: "accept" | "dismiss";
   promptText?: string;
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_handle_dialog");
   s.page.once("dialog", async (dialog) => {
     if (args.action === "accept") {
@@ -583,7 +888,7 @@ export async function browserWaitFor(args: {
   timeout?: number;
   frame?: string | string[];
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   const waitState = args.state ?? "visible";
   const t = args.timeout ?? 30000;
   const tauri = tauriSession(s);
@@ -609,8 +914,95 @@ export async function browserWaitFor(args: {
   });
 }
 
+type NetworkWaitArgs = Omit<NetworkWaitSpec, "kind"> & {
+  session: string;
+  timeout?: number;
+  // return a wait id at once instead of waiting; collect it later with waitId
+  arm?: boolean;
+  waitId?: string;
+};
+
+/** Arm a network wait (or pick up an armed one) and, unless only arming, wait for its match. */
+async function waitForNetwork(kind: NetworkWaitSpec["kind"], args: NetworkWaitArgs): Promise<Request | Response | string> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, `browser_wait_for_${kind}`);
+  const { session, timeout, arm, waitId, ...spec } = args;
+  if (waitId && arm) {
+    throw new Error("Pass either arm or waitId, not both");
+  }
+  // The matcher was fixed when the wait was armed
+  const given = Object.entries(spec).filter(([, v]) => v !== undefined).map(([k]) => k);
+  if (waitId && given.length) {
+    throw new Error(`${given.join("/")} cannot be combined with waitId: wait ${waitId} already has its matcher from when it was armed`);
+  }
+  const id = waitId ?? (await sessionManager.armNetworkWait(session, { ...spec, kind }));
+  if (arm) return id;
+  return sessionManager.awaitNetworkWait(session, id, kind, timeout ?? 30000);
+}
+
+/** The "armed" result, telling the caller how to collect the wait. */
+function armedResult(kind: NetworkWaitSpec["kind"], id: string): ActionResult {
+  return {
+    text: `Armed ${kind} wait ${id}. Trigger the ${kind} (e.g. browser_click), then call browser_wait_for_${kind} with waitId "${id}"`,
+    data: { waitId: id },
+  };
+}
+
+export async function browserWaitForRequest(args: NetworkWaitArgs): Promise<ActionResult> {
+  const hit = await waitForNetwork("request", args);
+  if (typeof hit === "string") return armedResult("request", hit);
+  const request = hit as Request;
+  const data = {
+    url: request.url(),
+    method: request.method(),
+    resourceType: request.resourceType(),
+    headers: await request.allHeaders(),
+    postData: request.postData(),
+  };
+  const lines = [`${data.method} ${data.url} [${data.resourceType}]`];
+  if (data.postData !== null) lines.push("Post data:", data.postData);
+  return { text: lines.join("\n"), data };
+}
+
+export async function browserWaitForResponse(args: NetworkWaitArgs & {
+  // include the body: parsed when it is JSON, otherwise text (first 64 KB)
+  body?: boolean;
+}): Promise<ActionResult> {
+  const { body: withBody, ...waitArgs } = args;
+  const hit = await waitForNetwork("response", waitArgs);
+  if (typeof hit === "string") return armedResult("response", hit);
+  const response = hit as Response;
+  const headers = await response.allHeaders();
+  let body: unknown;
+  if (withBody) {
+    const buffer = await response.body().catch((e: Error) => {
+      throw new Error(`Response body unavailable: ${e.message.split("\n")[0]}`);
+    });
+    const text = buffer.toString("utf8");
+    body = text.length > 64 * 1024 ? `${text.slice(0, 64 * 1024)}…` : text;
+    if (/[/+]json\b/i.test(headers["content-type"] ?? "")) {
+      try {
+        body = JSON.parse(text);
+      } catch {
+        // Mislabelled JSON: keep the text
+      }
+    }
+  }
+  const data = {
+    url: response.url(),
+    method: response.request().method(),
+    status: response.status(),
+    statusText: response.statusText(),
+    headers,
+    ...(withBody ? { body } : {}),
+  };
+  const lines = [`${data.status} ${data.statusText} ${data.method} ${data.url}`.replace(/\s+/g, " "), ...formatHeaders(headers)];
+  if (withBody) lines.push("Body:", typeof body === "string" ? body : JSON.stringify(body, null, 2));
+  return { text: lines.join("\n"), data };
+}
+
 export async function browserEvaluate(args: { session: string; script: string }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   const tauri = tauriSession(s);
   if (tauri) {
     const result = await tauri.command({ command: "eval", expression: args.script, timeoutMs: 5000 });
@@ -626,7 +1018,7 @@ export async function browserEvaluate(args: { session: string; script: string })
 //   `electron.dialog.showOpenDialog = async () => ({ canceled: false, filePaths: ['/x.mp4'] });`
 // Same trust model as browser_evaluate, but with full Node/Electron (main) power.
 export async function electronEvaluate(args: { session: string; script: string }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "electron_evaluate");
   if (s.type !== "electron") {
     throw new Error(`Session '${args.session}' is not an electron session (type: ${s.type})`);
@@ -638,49 +1030,449 @@ export async function electronEvaluate(args: { session: string; script: string }
   return { text: JSON.stringify(result ?? null, null, 2), data: result };
 }
 
+export async function browserAddInitScript(args: { session: string; script: string }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_add_init_script");
+  const script = await sessionManager.addInitScript(args.session, args.script);
+  return {
+    text: `Added init script ${script.id}; it runs before page scripts on every navigation from now on`,
+    data: script,
+  };
+}
+
+export async function browserListInitScripts(args: { session: string }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_list_init_scripts");
+  if (s.initScripts.length === 0) {
+    return { text: "No init scripts", data: [] };
+  }
+  const lines = s.initScripts.map((i) => {
+    const firstLine = i.source.split("\n")[0];
+    return `- ${i.id} (added ${i.addedAt}): ${firstLine.length > 80 ? `${firstLine.slice(0, 80)}…` : firstLine}`;
+  });
+  return { text: `Init scripts (${s.initScripts.length}):\n${lines.join("\n")}`, data: s.initScripts };
+}
+
+export async function browserRemoveInitScript(args: { session: string; id: string }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_remove_init_script");
+  sessionManager.removeInitScript(args.session, args.id);
+  return {
+    text: `Removed init script ${args.id}. Forks and recoveries no longer get it; Playwright cannot unregister it from the live context, so destroy and recreate the session to stop it here`,
+  };
+}
+
+/** One-line summary of a route rule: what it matches and what it does. */
+function describeRoute(r: RouteRule): string {
+  const match = `${r.method ? `${r.method.toUpperCase()} ` : ""}${r.regex ? `/${r.url}/` : r.url}`;
+  let action: string;
+  if (r.action === "fulfill") {
+    action = `fulfill ${r.status ?? 200}${r.bodyFile ? ` from ${r.bodyFile}` : r.body !== undefined ? ` (${r.body.length} chars)` : ""}`;
+  } else if (r.action === "abort") {
+    action = `abort ${r.errorCode ?? "failed"}`;
+  } else {
+    const changes = [...Object.keys(r.setHeaders ?? {}).map((h) => `header ${h}`), ...(r.postData !== undefined ? ["post data"] : [])];
+    action = `continue${changes.length ? ` with ${changes.join(", ")}` : ""}`;
+  }
+  return `${match} -> ${action}${r.delayMs ? ` after ${r.delayMs}ms` : ""}`;
+}
+
+export async function browserRoute(args: RouteSpec & { session: string }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_route");
+  const { session, ...spec } = args;
+  const rule = await sessionManager.addRoute(session, spec);
+  return { text: `Added route ${rule.id}: ${describeRoute(rule)}`, data: rule };
+}
+
+export async function browserUnroute(args: { session: string; id?: string; all?: boolean }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_unroute");
+  if (!args.id && !args.all) {
+    throw new Error("browser_unroute needs a route id or all: true");
+  }
+  const removed = await sessionManager.removeRoute(args.session, args.all ? undefined : args.id);
+  return {
+    text: args.all ? `Removed ${removed.length} route(s)` : `Removed route ${args.id}`,
+    data: removed.map((r) => r.id),
+  };
+}
+
+export async function browserRoutes(args: { session: string }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_routes");
+  if (s.routes.length === 0) {
+    return { text: "No routes", data: [] };
+  }
+  // Newest first: that is the order requests try them in
+  const routes = [...s.routes].reverse();
+  const lines = routes.map((r) => `- ${r.id} ${describeRoute(r)} (${r.hits} hit${r.hits === 1 ? "" : "s"})`);
+  return { text: `Routes (${routes.length}), newest first:\n${lines.join("\n")}`, data: routes };
+}
+
+/** Blocked-request counts as `12 (image 9, tracker 3)`, biggest first. */
+function describeBlockedCounts(counts: Record<string, number>): string {
+  const entries = Object.entries(counts).sort((a, b) => b[1] - a[1]);
+  const total = entries.reduce((sum, [, n]) => sum + n, 0);
+  return total ? `${total} (${entries.map(([reason, n]) => `${reason} ${n}`).join(", ")})` : "0";
+}
+
+export async function browserBlock(args: BlockSpec & { session: string; clear?: boolean }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_block");
+  const { session, clear, ...add } = args;
+  const changed = clear || add.resourceTypes?.length || add.urls?.length || add.trackers !== undefined;
+  if (changed) {
+    // Added to what is already blocked; clear starts from nothing
+    const current = clear ? {} : s.blocking ?? {};
+    const union = (a?: string[], b?: string[]) => {
+      const all = [...new Set([...(a ?? []), ...(b ?? [])])];
+      return all.length ? all : undefined;
+    };
+    await sessionManager.setBlock(session, {
+      resourceTypes: union(current.resourceTypes, add.resourceTypes),
+      urls: union(current.urls, add.urls),
+      trackers: add.trackers ?? current.trackers,
+    });
+  }
+  return {
+    text: `${changed ? "Now blocking" : "Blocking"}: ${describeBlockSpec(s.blocking)}\nBlocked so far: ${describeBlockedCounts(s.blockedCounts)}`,
+    data: { blocking: s.blocking ?? null, blockedCounts: s.blockedCounts },
+  };
+}
+
+export async function browserHarStart(args: {
+  session: string;
+  path: string;
+  content?: HarContent;
+  urlFilter?: string;
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_har_start");
+  if (args.content !== undefined && !HAR_CONTENT_MODES.includes(args.content)) {
+    throw new Error(`Unknown content '${args.content}' (${HAR_CONTENT_MODES.join(", ")})`);
+  }
+  const { session, ...options } = args;
+  const har = await sessionManager.startHar(session, options);
+  return {
+    text: `Recording HAR to ${har.path} (bodies: ${har.content}${har.urlFilter ? `, only ${har.urlFilter}` : ""}); browser_har_stop writes it`,
+  };
+}
+
+export async function browserHarStop(args: { session: string }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_har_stop");
+  const result = await sessionManager.stopHar(args.session);
+  return { text: `Wrote ${result.entries} request(s) to ${result.path}`, data: result };
+}
+
+export async function browserRouteFromHar(args: HarReplay & { session: string }): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_route_from_har");
+  if (args.notFound !== undefined && !HAR_NOT_FOUND_MODES.includes(args.notFound)) {
+    throw new Error(`Unknown notFound '${args.notFound}' (${HAR_NOT_FOUND_MODES.join(", ")})`);
+  }
+  const { session, ...replay } = args;
+  await sessionManager.addHarReplay(session, replay);
+  const missing = replay.notFound === "fallback" ? "go to the network" : "are aborted";
+  return {
+    text: `Serving ${replay.url ?? "all"} requests from ${replay.path}; requests not in the HAR ${missing}`,
+  };
+}
+
+export async function browserExtensions(args: {
+  session: string;
+  action?: "list" | "popup" | "options";
+  // popup/options: extension id; may be omitted when the session loads a single extension
+  id?: string;
+}): Promise<ActionResult> {
+  const extensions = await sessionManager.listExtensions(args.session);
+  const act = args.action ?? "list";
+  if (act === "list") {
+    const lines = extensions.map((e) => {
+      const target = e.serviceWorker
+        ? `service worker ${e.serviceWorker}`
+        : e.backgroundPage
+        ? `background page ${e.backgroundPage}`
+        : "no background target running";
+      const pages = [e.popup ? `popup: ${e.popup}` : "", e.options ? `options: ${e.options}` : ""].filter((t) => t !== "");
+      return `- ${e.id} ${e.name} ${e.version} (MV${e.manifestVersion}, ${e.path})\n    ${target}${pages.map((t) => ` [${t}]`).join("")}`;
+    });
+    return { text: `Extensions (${extensions.length}):\n${lines.join("\n")}`, data: extensions };
+  }
+  if (act !== "popup" && act !== "options") {
+    throw new Error(`Unknown action: ${act}`);
+  }
+  const ext = args.id ? extensions.find((e) => e.id === args.id) : extensions.length === 1 ? extensions[0] : undefined;
+  if (!ext) {
+    throw new Error(args.id ? `Extension '${args.id}' is not loaded in session '${args.session}'` : `${act} needs an extension id (run browser_extensions list)`);
+  }
+  const pagePath = act === "popup" ? ext.popup : ext.options;
+  if (!pagePath) {
+    throw new Error(`Extension '${ext.name}' declares no ${act} page in its manifest`);
+  }
+  const s = await sessionManager.acquire(args.session);
+  const url = `chrome-extension://${ext.id}/${pagePath.replace(/^\//, "")}`;
+  const page = await s.context.newPage();
+  sessionManager.claimTab(s, page);
+  await page.goto(url);
+  s.page = page;
+  return {
+    text: `Opened ${ext.name} ${act} in new tab ${s.tabIds.get(page)}: ${url}`,
+    data: { id: s.tabIds.get(page), url },
+  };
+}
+
 export async function browserResize(args: {
   session: string;
   width: number;
   height: number;
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_resize");
   await s.page.setViewportSize({ width: args.width, height: args.height });
   return { text: `Resized viewport to ${args.width}x${args.height}` };
 }
 
-export async function browserConsoleMessages(args: {
+export async function browserSetHeaders(args: {
+  session: string;
+  headers: Record<string, string>;
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_set_headers");
+  await sessionManager.setExtraHeaders(args.session, args.headers);
+  const names = Object.keys(args.headers);
+  return {
+    text: names.length > 0 ? `Set extra HTTP headers: ${names.join(", ")}` : "Cleared extra HTTP headers",
+  };
+}
+
+export async function browserPermissions(args: {
   session: string;
+  action?: "grant" | "clear" | "list";
+  permissions?: string[];
+  // grant/clear: one origin (e.g. https://maps.example.com); omitted means every origin
+  origin?: string;
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_permissions");
+  const act = args.action ?? "list";
+  let grants: PermissionGrant[];
+  let text: string;
+  if (act === "grant") {
+    if (!args.permissions?.length) {
+      throw new Error("grant needs at least one permission, e.g. geolocation");
+    }
+    grants = await sessionManager.grantPermissions(args.session, args.permissions, args.origin);
+    text = `Granted ${describeGrant({ permissions: args.permissions, origin: args.origin })}`;
+  } else if (act === "clear") {
+    grants = await sessionManager.clearPermissions(args.session, args.origin);
+    text = args.origin ? `Cleared permissions for ${args.origin}` : "Cleared all permissions";
+  } else if (act === "list") {
+    grants = sessionManager.list().find((i) => i.name === args.session)?.permissions ?? [];
+    text = grants.length ? "Granted permissions:" : "No permissions granted";
+  } else {
+    throw new Error(`Unknown action: ${act}`);
+  }
+  const lines = act === "list" ? grants.map((g) => `- ${describeGrant(g)}`) : [];
+  return { text: [text, ...lines].join("\n"), data: grants };
+}
+
+export async function browserNetworkConditions(args: NetworkConditions & {
+  session: string;
+  // drop all emulated conditions
+  reset?: boolean;
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_network_conditions");
+  const { session, reset, ...conditions } = args;
+  if (reset) {
+    await sessionManager.setNetworkConditions(session);
+    return { text: "Reset network conditions", data: null };
+  }
+  if (Object.values(conditions).every((v) => v === undefined)) {
+    const current = s.networkConditions;
+    return { text: current ? `Network conditions: ${describeNetworkConditions(current)}` : "No network conditions set", data: current ?? null };
+  }
+  const applied = await sessionManager.setNetworkConditions(session, conditions);
+  return { text: `Network conditions: ${describeNetworkConditions(applied ?? {})}`, data: applied };
+}
+
+export async function browserSetGeolocation(args: {
+  session: string;
+  latitude?: number;
+  longitude?: number;
+  accuracy?: number;
+  // stop emulating a position
   clear?: boolean;
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_set_geolocation");
+  if (args.clear) {
+    await sessionManager.setGeolocation(args.session, null);
+    return { text: "Cleared geolocation" };
+  }
+  if (args.latitude === undefined || args.longitude === undefined) {
+    throw new Error("browser_set_geolocation needs latitude and longitude (or clear)");
+  }
+  const geolocation: Geolocation = { latitude: args.latitude, longitude: args.longitude, ...(args.accuracy !== undefined ? { accuracy: args.accuracy } : {}) };
+  await sessionManager.setGeolocation(args.session, geolocation);
+  return {
+    text: `Set geolocation to ${args.latitude},${args.longitude}${args.accuracy !== undefined ? ` (±${args.accuracy}m)` : ""}. Pages read it only with the geolocation permission (browser_permissions grant)`,
+  };
+}
+
+/** Drop the entries a `clear` returned from the session buffer, keeping other tabs' entries when filtered by tab. */
+function clearReturned<T>(buffer: T[], returned: T[]): void {
+  const gone = new Set(returned);
+  const kept = buffer.filter((entry) => !gone.has(entry));
+  buffer.length = 0;
+  buffer.push(...kept);
+}
+
+/** Result text when a log read returns nothing: say whether filters (or afterSeq) were involved. */
+function noEntries(noun: string, filter: LogFilter): string {
+  if (!isFiltered(filter)) return `No ${noun}`;
+  return `No ${noun} match the filter${filter.afterSeq !== undefined ? ` after seq ${filter.afterSeq}` : ""}`;
+}
+
+export async function browserConsoleMessages(args: ConsoleFilter & {
+  session: string;
+  clear?: boolean;
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_console_messages");
-  const messages = [...s.consoleMessages];
+  const messages = filterConsole(s.consoleMessages, args);
   if (args.clear) {
-    s.consoleMessages.length = 0;
+    clearReturned(s.consoleMessages, messages);
   }
   if (messages.length === 0) {
-    return { text: "No console messages", data: [] };
+    return { text: noEntries("console messages", args), data: [] };
   }
-  const lines = messages.map((m) => `[${m.type}] ${m.text}`);
-  return { text: `Console messages (${messages.length}):\n${lines.join("\n")}`, data: messages };
+  const lines = messages.map((m) => `#${m.seq} ${m.tabId} [${m.type}] ${m.text}`);
+  const last = messages[messages.length - 1].seq;
+  return { text: `Console messages (${messages.length}, last seq ${last}):\n${lines.join("\n")}`, data: messages };
 }
 
-export async function browserNetworkRequests(args: {
+export async function browserNetworkRequests(args: NetworkFilter & {
   session: string;
   clear?: boolean;
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_network_requests");
-  const requests = [...s.networkRequests];
+  const requests = filterNetwork(s.networkRequests, args);
   if (args.clear) {
-    s.networkRequests.length = 0;
+    clearReturned(s.networkRequests, requests);
   }
   if (requests.length === 0) {
-    return { text: "No network requests", data: [] };
+    return { text: noEntries("network requests", args), data: [] };
+  }
+  const lines = requests.map(describeRequest);
+  const last = requests[requests.length - 1].seq;
+  const blocked = requests.filter((r) => r.blocked).length;
+  return {
+    text: `Network requests (${requests.length}, last seq ${last}${blocked ? `, ${blocked} blocked` : ""}):\n${lines.join("\n")}`,
+    data: requests.map(publicRequest),
+  };
+}
+
+/** One line per WebSocket/SSE event: seq, tab, connection, what happened and the payload preview. */
+function describeRealtime(e: RealtimeEvent): string {
+  const head = `#${e.seq} ${e.tabId} ${e.connectionId}`;
+  switch (e.type) {
+    case "open":
+      return `${head} open ${e.url}`;
+    case "close":
+      return `${head} closed${e.code !== undefined ? ` ${e.code}${e.reason ? ` ${e.reason}` : ""}` : ""}`;
+    case "error":
+      return `${head} error${e.error ? ` ${e.error}` : ""}`;
+    default: {
+      const arrow = e.type === "sent" ? "->" : "<-";
+      const label = e.event && e.event !== "message" ? ` [${e.event}]` : "";
+      const note = [e.binary ? "binary, base64" : "", e.truncated ? "truncated" : ""].filter(Boolean).join(", ");
+      return `${head} ${arrow}${label} ${e.size}B${note ? ` (${note})` : ""} ${e.payload ?? ""}`;
+    }
+  }
+}
+
+export async function browserWebsockets(args: RealtimeFilter & {
+  session: string;
+  clear?: boolean;
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_websockets");
+  const events = filterRealtime(s.realtimeEvents, args);
+  if (args.clear) {
+    clearReturned(s.realtimeEvents, events);
+  }
+  if (events.length === 0) {
+    return { text: noEntries("WebSocket/SSE events", args), data: [] };
+  }
+  const last = events[events.length - 1].seq;
+  return {
+    text: `WebSocket/SSE events (${events.length}, last seq ${last}):\n${events.map(describeRealtime).join("\n")}`,
+    data: events,
+  };
+}
+
+/** A network log entry without the live Response it holds for body reads. */
+function publicRequest(record: NetworkRequest): Omit<NetworkRequest, "response"> {
+  const { response: _response, ...rest } = record;
+  return rest;
+}
+
+/** One line per request: id, tab, method, URL, outcome, resource type and duration. */
+function describeRequest(r: NetworkRequest): string {
+  const outcome = r.blocked ? `blocked (${r.blocked})` : r.failure ? `failed (${r.failure})` : r.status !== undefined ? String(r.status) : "pending";
+  return `${r.id} ${r.tabId} ${r.method} ${r.url} ${outcome} [${r.resourceType}${r.durationMs !== undefined ? `, ${r.durationMs}ms` : ""}]`;
+}
+
+const formatHeaders = (headers: Record<string, string>) => Object.entries(headers).map(([k, v]) => `  ${k}: ${v}`);
+
+export async function browserNetworkRequest(args: {
+  session: string;
+  id: string;
+  // response body bytes to return; the rest is cut off
+  maxBytes?: number;
+}): Promise<ActionResult> {
+  const s = await sessionManager.acquire(args.session);
+  requirePageBacked(s, "browser_network_request");
+  const record = s.networkRequests.find((r) => r.id === args.id);
+  if (!record) {
+    throw new Error(`Network request '${args.id}' not found (it may have been cleared or dropped from the 1000-entry log; see browser_network_requests)`);
   }
-  const lines = requests.map((r) => `${r.method} ${r.url} ${r.status ?? "pending"}`);
-  return { text: `Network requests (${requests.length}):\n${lines.join("\n")}`, data: requests };
+  const maxBytes = args.maxBytes ?? 64 * 1024;
+  const lines = [describeRequest(record)];
+  if (record.redirectChain) lines.push(`Redirected from: ${record.redirectChain.join(" -> ")}`);
+  lines.push("Request headers:", ...formatHeaders(record.requestHeaders));
+  if (record.postData !== undefined) {
+    lines.push(`Post data${record.postDataTruncated ? " (truncated)" : ""}:`, record.postData);
+  }
+  if (record.responseHeaders) lines.push("Response headers:", ...formatHeaders(record.responseHeaders));
+
+  let body: { size: number; truncated: boolean; encoding: "utf8" | "base64"; text: string } | undefined;
+  let unavailable: string | undefined;
+  if (!record.response) {
+    unavailable = record.blocked ? "request blocked" : record.failure ? "request failed" : "no response yet";
+  } else {
+    try {
+      const buffer = await record.response.body();
+      const mimeType = record.responseHeaders?.["content-type"] ?? (await record.response.headerValue("content-type")) ?? "";
+      const kept = buffer.subarray(0, maxBytes);
+      const encoding = isTextMime(mimeType) ? "utf8" : "base64";
+      body = { size: buffer.length, truncated: buffer.length > maxBytes, encoding, text: kept.toString(encoding) };
+    } catch (e) {
+      // Redirect responses and bodies the browser has already evicted can't be read
+      unavailable = (e as Error).message.split("\n")[0];
+    }
+  }
+  if (body) {
+    const note = body.truncated ? `first ${maxBytes} of ${body.size} bytes` : `${body.size} bytes`;
+    lines.push(`Response body (${note}${body.encoding === "base64" ? ", base64" : ""}):`, body.text);
+  } else {
+    lines.push(`Response body unavailable: ${unavailable}`);
+  }
+  return { text: lines.join("\n"), data: { ...publicRequest(record), body: body ?? null } };
 }
 
 function publicDownload(record: BrowserSession["downloads"][number]) {
@@ -690,6 +1482,8 @@ function publicDownload(record: BrowserSession["downloads"][number]) {
     url: record.url,
     createdAt: record.createdAt,
     savedPath: record.savedPath,
+    tabId: record.tabId,
+    pageUrl: record.pageUrl,
   };
 }
 
@@ -697,7 +1491,7 @@ export async function browserDownloads(args: {
   session: string;
   clear?: boolean;
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_downloads");
   const downloads = [...s.downloads];
   if (args.clear) {
@@ -721,7 +1515,7 @@ export async function browserSaveDownload(args: {
   if (!args.savePath.startsWith("/")) {
     throw new Error("savePath must be an absolute path");
   }
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_save_download");
   const record = args.id
     ? s.downloads.find((download) => download.id === args.id)
@@ -737,49 +1531,100 @@ export async function browserSaveDownload(args: {
   };
 }
 
+/** Resolve a tab by stable id (t2) or, for older callers, by index into context.pages(). */
+function findTab(s: BrowserSession, pages: Page[], args: { id?: string; index?: number }): Page | undefined {
+  if (args.id !== undefined) {
+    const page = pages.find((p) => s.tabIds.get(p) === args.id);
+    if (!page) {
+      throw new Error(`Tab '${args.id}' not found. Open tabs: ${pages.map((p) => s.tabIds.get(p)).join(", ")}`);
+    }
+    return page;
+  }
+  if (args.index !== undefined) {
+    if (args.index < 0 || args.index >= pages.length) {
+      throw new Error(`Invalid tab index. Valid range: 0-${pages.length - 1}`);
+    }
+    return pages[args.index];
+  }
+  return undefined;
+}
+
 export async function browserTabs(args: {
   session: string;
-  action?: "list" | "new" | "switch" | "close";
+  action?: "list" | "new" | "switch" | "close" | "wait_new";
+  id?: string;
   index?: number;
   url?: string;
+  // wait_new: make the new tab the active one
+  switch?: boolean;
+  timeout?: number;
 }): Promise<ActionResult> {
-  const s = sessionManager.getOrThrow(args.session);
+  const s = await sessionManager.acquire(args.session);
   requirePageBacked(s, "browser_tabs");
   const pages = s.context.pages();
   const act = args.action ?? "list";
+  const label = args.id ?? args.index;
 
   if (act === "list") {
-    const tabs = pages.map((p, i) => `${i}: ${p.url()}`);
-    return {
-      text: `Tabs (${pages.length}):\n${tabs.join("\n")}`,
-      data: pages.map((p, i) => ({ index: i, url: p.url() })),
-    };
+    const tabs = await Promise.all(
+      pages.map(async (p, i) => {
+        const opener = await p.opener().catch(() => null);
+        return {
+          index: i,
+          id: s.tabIds.get(p),
+          title: await p.title().catch(() => ""),
+          url: p.url(),
+          opener: opener ? s.tabIds.get(opener) ?? null : null,
+          active: p === s.page,
+        };
+      }),
+    );
+    const lines = tabs.map(
+      (t) => `${t.active ? "*" : " "} ${t.id} [${t.index}] ${t.title || "(untitled)"} — ${t.url}${t.opener ? ` (opened by ${t.opener})` : ""}`,
+    );
+    return { text: `Tabs (${pages.length}):\n${lines.join("\n")}`, data: tabs };
   } else if (act === "new") {
     const newPage = await s.context.newPage();
+    sessionManager.claimTab(s, newPage);
     if (args.url) {
       await newPage.goto(args.url);
     }
     s.page = newPage;
-    return { text: `Created new tab${args.url ? ` at ${args.url}` : ""}` };
+    return { text: `Created new tab ${s.tabIds.get(newPage)}${args.url ? ` at ${args.url}` : ""}` };
   } else if (act === "switch") {
-    if (args.index === undefined || args.index < 0 || args.index >= pages.length) {
-      throw new Error(`Invalid tab index. Valid range: 0-${pages.length - 1}`);
+    const page = findTab(s, pages, args);
+    if (!page) {
+      throw new Error("switch needs a tab id or index");
     }
-    s.page = pages[args.index];
-    return { text: `Switched to tab ${args.index}: ${s.page.url()}` };
+    s.page = page;
+    return { text: `Switched to tab ${label}: ${s.page.url()}` };
   } else if (act === "close") {
     if (pages.length === 1) {
       throw new Error("Cannot close the last tab");
     }
-    const closeIndex = args.index ?? pages.indexOf(s.page);
-    if (closeIndex < 0 || closeIndex >= pages.length) {
-      throw new Error(`Invalid tab index. Valid range: 0-${pages.length - 1}`);
-    }
-    await pages[closeIndex].close();
-    if (s.page === pages[closeIndex]) {
+    const page = findTab(s, pages, args) ?? s.page;
+    // Read before closing: the page's close handler drops its tab id
+    const tabId = s.tabIds.get(page);
+    await page.close();
+    if (s.page === page) {
       s.page = s.context.pages()[0];
     }
-    return { text: `Closed tab ${closeIndex}` };
+    return { text: `Closed tab ${tabId ?? label ?? ""}`.trimEnd() };
+  } else if (act === "wait_new") {
+    const timeout = args.timeout ?? 30000;
+    const page = await sessionManager.waitForNewTab(args.session, timeout);
+    await page.waitForLoadState("domcontentloaded", { timeout }).catch(() => {});
+    const opener = await page.opener().catch(() => null);
+    if (args.switch) {
+      s.page = page;
+    }
+    const id = s.tabIds.get(page);
+    return {
+      text:
+        `New tab ${id}: ${page.url()}${opener ? ` (opened by ${s.tabIds.get(opener)})` : ""}` +
+        (args.switch ? "; switched to it" : ""),
+      data: { id, url: page.url(), opener: opener ? s.tabIds.get(opener) ?? null : null, active: s.page === page },
+    };
   }
   throw new Error(`Unknown action: ${act}`);
 }
@@ -0,0 +1,126 @@
+import type { Request, Route } from "playwright";
+import type { BlockSpec } from "./types.js";
+
+/** Resource types a block can name; documents are left out, blocking one would just blank the tab. */
+export const BLOCKABLE_RESOURCE_TYPES = [
+  "stylesheet",
+  "image",
+  "media",
+  "font",
+  "script",
+  "texttrack",
+  "xhr",
+  "fetch",
+  "eventsource",
+  "websocket",
+  "manifest",
+  "other",
+] as const;
+
+/** Common ad and analytics hosts `trackers: true` blocks, subdomains included. */
+export const TRACKER_HOSTS = [
+  "doubleclick.net",
+  "googlesyndication.com",
+  "googleadservices.com",
+  "googletagmanager.com",
+  "googletagservices.com",
+  "google-analytics.com",
+  "connect.facebook.net",
+  "amazon-adsystem.com",
+  "adnxs.com",
+  "adsrvr.org",
+  "criteo.com",
+  "criteo.net",
+  "taboola.com",
+  "outbrain.com",
+  "pubmatic.com",
+  "rubiconproject.com",
+  "openx.net",
+  "moatads.com",
+  "scorecardresearch.com",
+  "quantserve.com",
+  "chartbeat.com",
+  "hotjar.com",
+  "fullstory.com",
+  "mouseflow.com",
+  "crazyegg.com",
+  "clarity.ms",
+  "mixpanel.com",
+  "segment.io",
+  "cdn.segment.com",
+  "amplitude.com",
+  "hs-analytics.net",
+  "nr-data.net",
+  "bat.bing.com",
+  "ads-twitter.com",
+  "analytics.twitter.com",
+  "mc.yandex.ru",
+];
+
+/** Reject unknown resource types before anything is blocked. */
+export function validateBlockSpec(spec: BlockSpec): void {
+  const unknown = (spec.resourceTypes ?? []).filter((t) => !(BLOCKABLE_RESOURCE_TYPES as readonly string[]).includes(t));
+  if (unknown.length) {
+    throw new Error(`Cannot block resource type ${unknown.map((t) => `'${t}'`).join(", ")} (${BLOCKABLE_RESOURCE_TYPES.join(", ")})`);
+  }
+}
+
+/** Whether the spec blocks anything at all. */
+export function blocksAnything(spec: BlockSpec | undefined): spec is BlockSpec {
+  return !!(spec && (spec.resourceTypes?.length || spec.urls?.length || spec.trackers));
+}
+
+/** One-line summary of what a spec blocks. */
+export function describeBlockSpec(spec: BlockSpec | undefined): string {
+  if (!blocksAnything(spec)) return "nothing";
+  return [
+    spec.resourceTypes?.length ? spec.resourceTypes.join(", ") : "",
+    spec.urls?.length ? `URLs ${spec.urls.join(", ")}` : "",
+    spec.trackers ? `${TRACKER_HOSTS.length} ad/analytics hosts` : "",
+  ].filter(Boolean).join("; ");
+}
+
+/** Matches URLs on a TRACKER_HOSTS host or a subdomain of one. */
+const TRACKER_URL = new RegExp(
+  `^[a-z][a-z0-9+.-]*://(?:[^/?#]*\\.)?(?:${TRACKER_HOSTS.map((h) => h.replace(/\./g, "\\.")).join("|")})(?::\\d+)?(?:[/?#]|$)`,
+  "i",
+);
+
+/** One context.route registration behind a block. */
+export interface BlockRoute {
+  url: string | RegExp;
+  handler: (route: Route) => Promise<void>;
+}
+
+/**
+ * The context routes behind a spec, in registration order: one per URL glob, one for the tracker
+ * hosts, and when types are blocked a catch-all that passes other types on. Playwright tries
+ * the newest route first, so a blocked request counts under its resource type, then `tracker`,
+ * then `url`. Blocked requests are aborted as blockedbyclient and reported through `onBlocked`.
+ */
+export function blockRoutes(spec: BlockSpec, onBlocked: (request: Request, reason: string) => void): BlockRoute[] {
+  const abort = async (route: Route, reason: string) => {
+    try {
+      onBlocked(route.request(), reason);
+      await route.abort("blockedbyclient");
+    } catch {
+      // The page or context went away mid-request
+    }
+  };
+  const routes: BlockRoute[] = (spec.urls ?? []).map((url) => ({ url, handler: (route) => abort(route, "url") }));
+  if (spec.trackers) {
+    routes.push({ url: TRACKER_URL, handler: (route) => abort(route, "tracker") });
+  }
+  if (spec.resourceTypes?.length) {
+    const types = new Set(spec.resourceTypes);
+    routes.push({
+      url: "**/*",
+      handler: async (route) => {
+        const type = route.request().resourceType();
+        if (types.has(type)) return abort(route, type);
+        await route.fallback().catch(() => {});
+      },
+    });
+  }
+  return routes;
+}
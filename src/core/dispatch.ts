@@ -14,7 +14,9 @@ export type Action = (args: Record<string, unknown>) => Promise<ActionResult>;
 export const actionDispatch: Record<string, Action> = {
   // session management
   session_create: (a) => actions.sessionCreate(a as never),
-  session_list: () => actions.sessionList(),
+  session_list: (a) => actions.sessionList(a as never),
+  session_fork: (a) => actions.sessionFork(a as never),
+  session_touch: (a) => actions.sessionTouch(a as never),
   session_destroy: (a) => actions.sessionDestroy(a as never),
   // storage
   storage_save: (a) => actions.storageSave(a as never),
@@ -34,17 +36,39 @@ export const actionDispatch: Record<string, Action> = {
   browser_press_key: (a) => actions.browserPressKey(a as never),
   browser_hover: (a) => actions.browserHover(a as never),
   browser_drag: (a) => actions.browserDrag(a as never),
+  browser_tap: (a) => actions.browserTap(a as never),
+  browser_swipe: (a) => actions.browserSwipe(a as never),
+  browser_pinch: (a) => actions.browserPinch(a as never),
   browser_select_option: (a) => actions.browserSelectOption(a as never),
   browser_file_upload: (a) => actions.browserFileUpload(a as never),
   browser_fill_form: (a) => actions.browserFillForm(a as never),
   browser_handle_dialog: (a) => actions.browserHandleDialog(a as never),
   // utilities
   browser_wait_for: (a) => actions.browserWaitFor(a as never),
+  browser_wait_for_request: (a) => actions.browserWaitForRequest(a as never),
+  browser_wait_for_response: (a) => actions.browserWaitForResponse(a as never),
   browser_evaluate: (a) => actions.browserEvaluate(a as never),
   electron_evaluate: (a) => actions.electronEvaluate(a as never),
+  browser_add_init_script: (a) => actions.browserAddInitScript(a as never),
+  browser_list_init_scripts: (a) => actions.browserListInitScripts(a as never),
+  browser_remove_init_script: (a) => actions.browserRemoveInitScript(a as never),
+  browser_extensions: (a) => actions.browserExtensions(a as never),
   browser_resize: (a) => actions.browserResize(a as never),
+  browser_set_headers: (a) => actions.browserSetHeaders(a as never),
+  browser_permissions: (a) => actions.browserPermissions(a as never),
+  browser_set_geolocation: (a) => actions.browserSetGeolocation(a as never),
+  browser_network_conditions: (a) => actions.browserNetworkConditions(a as never),
+  browser_route: (a) => actions.browserRoute(a as never),
+  browser_unroute: (a) => actions.browserUnroute(a as never),
+  browser_routes: (a) => actions.browserRoutes(a as never),
+  browser_block: (a) => actions.browserBlock(a as never),
+  browser_har_start: (a) => actions.browserHarStart(a as never),
+  browser_har_stop: (a) => actions.browserHarStop(a as never),
+  browser_route_from_har: (a) => actions.browserRouteFromHar(a as never),
   browser_console_messages: (a) => actions.browserConsoleMessages(a as never),
   browser_network_requests: (a) => actions.browserNetworkRequests(a as never),
+  browser_network_request: (a) => actions.browserNetworkRequest(a as never),
+  browser_websockets: (a) => actions.browserWebsockets(a as never),
   browser_downloads: (a) => actions.browserDownloads(a as never),
   browser_save_download: (a) => actions.browserSaveDownload(a as never),
   browser_tabs: (a) => actions.browserTabs(a as never),
@@ -0,0 +1,56 @@
+import { createHash } from "node:crypto";
+import { promises as fs, realpathSync } from "node:fs";
+import * as path from "node:path";
+
+/** What an unpacked extension's manifest.json declares, as far as browser_extensions cares. */
+export interface ExtensionManifest {
+  name: string;
+  version: string;
+  manifestVersion: number;
+  /** Path of the toolbar popup inside the extension, e.g. popup.html. */
+  popup?: string;
+  /** Path of the options page inside the extension. */
+  options?: string;
+}
+
+/**
+ * The id Chromium assigns an unpacked extension loaded with --load-extension: the first 128 bits
+ * of the SHA-256 of its real (symlink-resolved) path, hex digits mapped 0-f -> a-p. Known before
+ * the browser starts, so extensions that have no running service worker can still be addressed.
+ */
+export function extensionId(dir: string): string {
+  let real: string;
+  try {
+    real = realpathSync(dir);
+  } catch {
+    real = path.resolve(dir);
+  }
+  const hex = createHash("sha256").update(real).digest("hex").slice(0, 32);
+  return Array.from(hex, (c) => String.fromCharCode(97 + parseInt(c, 16))).join("");
+}
+
+/** Read an unpacked extension's manifest; fails with the directory in the message if it has none. */
+export async function readExtensionManifest(dir: string): Promise<ExtensionManifest> {
+  let raw: string;
+  try {
+    raw = await fs.readFile(path.join(dir, "manifest.json"), "utf8");
+  } catch {
+    throw new Error(`No manifest.json in extension directory ${dir}`);
+  }
+  const m = JSON.parse(raw) as {
+    name?: string;
+    version?: string;
+    manifest_version?: number;
+    action?: { default_popup?: string };
+    browser_action?: { default_popup?: string };
+    options_ui?: { page?: string };
+    options_page?: string;
+  };
+  return {
+    name: m.name ?? path.basename(dir),
+    version: m.version ?? "",
+    manifestVersion: m.manifest_version ?? 2,
+    popup: m.action?.default_popup ?? m.browser_action?.default_popup,
+    options: m.options_ui?.page ?? m.options_page,
+  };
+}
@@ -0,0 +1,125 @@
+import type { CDPSession, Locator } from "playwright";
+
+export type SwipeDirection = "up" | "down" | "left" | "right";
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface Box {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A finger's straight-line path. */
+type Stroke = { from: Point; to: Point };
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** The part of `box` inside a viewport of the given size, so gestures start on screen. */
+export function clipToViewport(box: Box, viewport: { width: number; height: number }): Box {
+  const x = Math.max(box.x, 0);
+  const y = Math.max(box.y, 0);
+  const width = Math.min(box.x + box.width, viewport.width) - x;
+  const height = Math.min(box.y + box.height, viewport.height) - y;
+  if (width <= 0 || height <= 0) {
+    throw new Error("The gesture target is outside the viewport");
+  }
+  return { x, y, width, height };
+}
+
+/**
+ * A one-finger swipe through the center of `box`. `direction` is where the finger moves ("up"
+ * scrolls content down, like a real swipe); `distance` defaults to 60% of the box along that axis.
+ */
+export function swipeStroke(box: Box, direction: SwipeDirection, distance?: number): Stroke {
+  const vertical = direction === "up" || direction === "down";
+  const span = vertical ? box.height : box.width;
+  const d = Math.min(distance ?? span * 0.6, span - 2);
+  const sign = direction === "down" || direction === "right" ? 1 : -1;
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const half = (sign * d) / 2;
+  return vertical
+    ? { from: { x: cx, y: cy - half }, to: { x: cx, y: cy + half } }
+    : { from: { x: cx - half, y: cy }, to: { x: cx + half, y: cy } };
+}
+
+/**
+ * Two fingers moving apart (scale > 1, zoom in) or together (scale < 1) along the horizontal
+ * axis through the center of `box`; the wider of the two spreads fills 80% of the box.
+ */
+export function pinchStrokes(box: Box, scale: number): [Stroke, Stroke] {
+  if (!(scale > 0) || scale === 1) {
+    throw new Error("Pinch scale must be a positive number other than 1 (above 1 zooms in, below 1 zooms out)");
+  }
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const widest = Math.min(box.width, box.height) * 0.8;
+  const start = scale > 1 ? widest / scale : widest;
+  const end = start * scale;
+  return [
+    { from: { x: cx - start / 2, y: cy }, to: { x: cx - end / 2, y: cy } },
+    { from: { x: cx + start / 2, y: cy }, to: { x: cx + end / 2, y: cy } },
+  ];
+}
+
+function along(stroke: Stroke, t: number): Point {
+  return { x: stroke.from.x + (stroke.to.x - stroke.from.x) * t, y: stroke.from.y + (stroke.to.y - stroke.from.y) * t };
+}
+
+/**
+ * Drive one or more fingers along their strokes with CDP `Input.dispatchTouchEvent`: touchStart,
+ * `steps` touchMoves spread over `durationMs`, touchEnd. The browser handles these like real touch
+ * input, so swipes scroll and pinches zoom natively. Coordinates are main-viewport CSS pixels.
+ */
+export async function dispatchTouchGesture(client: CDPSession, strokes: Stroke[], durationMs: number, steps: number): Promise<void> {
+  const points = (t: number) => strokes.map((s, id) => ({ ...along(s, t), id }));
+  await client.send("Input.dispatchTouchEvent", { type: "touchStart", touchPoints: points(0) });
+  try {
+    for (let i = 1; i <= steps; i++) {
+      await sleep(durationMs / steps);
+      await client.send("Input.dispatchTouchEvent", { type: "touchMove", touchPoints: points(i / steps) });
+    }
+  } finally {
+    await client.send("Input.dispatchTouchEvent", { type: "touchEnd", touchPoints: [] });
+  }
+}
+
+/**
+ * Swipe for engines without CDP: dispatch touchstart/touchmove/touchend from page JS on the
+ * element under the start point. Gesture handlers in the page see it, but the browser does not
+ * scroll natively. `stroke` is in the coordinates of the target's own frame.
+ */
+export async function dispatchSyntheticSwipe(target: Locator, stroke: Stroke, durationMs: number, steps: number): Promise<void> {
+  await target.evaluate(
+    async (el, { stroke, durationMs, steps }) => {
+      const start = document.elementFromPoint(stroke.from.x, stroke.from.y) ?? el;
+      const touchAt = (t: number) => {
+        const x = stroke.from.x + (stroke.to.x - stroke.from.x) * t;
+        const y = stroke.from.y + (stroke.to.y - stroke.from.y) * t;
+        return new Touch({ identifier: 0, target: start, clientX: x, clientY: y, pageX: x + scrollX, pageY: y + scrollY });
+      };
+      const fire = (type: string, touch: Touch, active: boolean) =>
+        start.dispatchEvent(
+          new TouchEvent(type, {
+            bubbles: true,
+            cancelable: true,
+            touches: active ? [touch] : [],
+            targetTouches: active ? [touch] : [],
+            changedTouches: [touch],
+          }),
+        );
+      fire("touchstart", touchAt(0), true);
+      for (let i = 1; i <= steps; i++) {
+        await new Promise((resolve) => setTimeout(resolve, durationMs / steps));
+        fire("touchmove", touchAt(i / steps), true);
+      }
+      fire("touchend", touchAt(1), false);
+    },
+    { stroke, durationMs, steps },
+  );
+}
@@ -0,0 +1,208 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import type { BrowserContext, Request } from "playwright";
+import { globToRegExp } from "./logs.js";
+
+/** How a HAR recording stores response bodies: inline (base64 for binary types) or not at all. */
+export const HAR_CONTENT_MODES = ["embed", "omit"] as const;
+export type HarContent = (typeof HAR_CONTENT_MODES)[number];
+
+/** What a HAR replay does with requests the HAR has no entry for. */
+export const HAR_NOT_FOUND_MODES = ["abort", "fallback"] as const;
+
+/** A browser_har_start request. */
+export interface HarRecordOptions {
+  /** Absolute path the HAR is written to on stop. */
+  path: string;
+  content?: HarContent;
+  /** Only record requests whose URL matches this glob. */
+  urlFilter?: string;
+}
+
+type HarHeader = { name: string; value: string };
+
+interface HarEntry {
+  pageref?: string;
+  startedDateTime: string;
+  time: number;
+  request: {
+    method: string;
+    url: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    queryString: HarHeader[];
+    postData?: { mimeType: string; text: string };
+    headersSize: number;
+    bodySize: number;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    httpVersion: string;
+    cookies: never[];
+    headers: HarHeader[];
+    content: { size: number; mimeType: string; text?: string; encoding?: "base64" };
+    redirectURL: string;
+    headersSize: number;
+    bodySize: number;
+    _failureText?: string;
+  };
+  cache: Record<string, never>;
+  timings: { blocked: number; dns: number; connect: number; ssl: number; send: number; wait: number; receive: number };
+  serverIPAddress?: string;
+}
+
+const TEXT_MIME = /^text\/|[+/](json|xml|javascript|ecmascript|x-www-form-urlencoded)\b|^application\/(graphql|manifest\+json)/i;
+
+/** Whether a body of this Content-Type reads as text; other bodies are passed on as base64. */
+export function isTextMime(mimeType: string): boolean {
+  return TEXT_MIME.test(mimeType);
+}
+
+const toHeaders = (headers: Record<string, string>): HarHeader[] => Object.entries(headers).map(([name, value]) => ({ name, value }));
+
+/** Milliseconds between two Playwright timing marks, or -1 when either was not reached. */
+const span = (from: number, to: number) => (from >= 0 && to >= 0 ? Math.max(0, to - from) : -1);
+
+/**
+ * Records a context's traffic into a HAR 1.2 log from requestfinished/requestfailed, so a
+ * recording can start and stop on a live session (Playwright's recordHar only works from context
+ * creation to close). Entries are built as requests complete and written out by stop().
+ */
+export class HarRecorder {
+  readonly path: string;
+  readonly content: HarContent;
+  readonly urlFilter?: string;
+  readonly startedAt = new Date();
+  private readonly matcher?: RegExp;
+  private readonly entries: Promise<HarEntry | undefined>[] = [];
+  private readonly pages = new Map<string, { startedDateTime: string; id: string; title: string; pageTimings: Record<string, never> }>();
+  private readonly onFinished = (request: Request) => this.entries.push(this.entry(request).catch(() => undefined));
+  private readonly onFailed = (request: Request) => this.entries.push(this.entry(request, request.failure()?.errorText ?? "failed").catch(() => undefined));
+
+  constructor(
+    private readonly context: BrowserContext,
+    options: HarRecordOptions,
+    /** Tab id of the page that made a request, used as the entry's pageref. */
+    private readonly tabOf: (request: Request) => string | undefined,
+  ) {
+    this.path = options.path;
+    this.content = options.content ?? "embed";
+    this.urlFilter = options.urlFilter;
+    this.matcher = options.urlFilter ? globToRegExp(options.urlFilter) : undefined;
+    context.on("requestfinished", this.onFinished);
+    context.on("requestfailed", this.onFailed);
+  }
+
+  /** Entries seen so far, including ones whose bodies are still being read. */
+  get count(): number {
+    return this.entries.length;
+  }
+
+  /** Stop listening and write the HAR; resolves to the number of entries written. */
+  async stop(): Promise<number> {
+    this.context.off("requestfinished", this.onFinished);
+    this.context.off("requestfailed", this.onFailed);
+    const entries = (await Promise.all(this.entries)).filter((e): e is HarEntry => e !== undefined);
+    entries.sort((a, b) => a.startedDateTime.localeCompare(b.startedDateTime));
+    const har = {
+      log: {
+        version: "1.2",
+        creator: { name: "browserplex", version: "" },
+        pages: [...this.pages.values()],
+        entries,
+      },
+    };
+    await fs.mkdir(path.dirname(this.path), { recursive: true });
+    await fs.writeFile(this.path, JSON.stringify(har, null, 2));
+    return entries.length;
+  }
+
+  private async entry(request: Request, failure?: string): Promise<HarEntry | undefined> {
+    const url = request.url();
+    if (this.matcher && !this.matcher.test(url)) return undefined;
+    if (url.startsWith("data:")) return undefined;
+    const timing = request.timing();
+    const started = new Date(timing.startTime > 0 ? timing.startTime : Date.now());
+    const pageref = this.pageref(request, started);
+    const response = failure ? null : await request.response();
+    const [requestHeaders, sizes] = await Promise.all([request.allHeaders(), request.sizes().catch(() => undefined)]);
+    const postData = request.postData();
+    const queryString = [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+
+    let responseHeaders: Record<string, string> = {};
+    let content: HarEntry["response"]["content"] = { size: 0, mimeType: "x-unknown" };
+    let serverIPAddress: string | undefined;
+    if (response) {
+      responseHeaders = await response.allHeaders();
+      const mimeType = responseHeaders["content-type"] ?? "x-unknown";
+      // Redirects and some cached responses have no body to read
+      const body = await response.body().catch(() => undefined);
+      content = { size: body?.length ?? 0, mimeType };
+      if (body && this.content === "embed") {
+        Object.assign(content, isTextMime(mimeType) ? { text: body.toString("utf8") } : { text: body.toString("base64"), encoding: "base64" });
+      }
+      serverIPAddress = (await response.serverAddr().catch(() => null))?.ipAddress;
+    }
+
+    const timings = {
+      blocked: -1,
+      dns: span(timing.domainLookupStart, timing.domainLookupEnd),
+      connect: span(timing.connectStart, timing.connectEnd),
+      ssl: span(timing.secureConnectionStart, timing.connectEnd),
+      send: 0,
+      wait: span(timing.requestStart, timing.responseStart),
+      receive: span(timing.responseStart, timing.responseEnd),
+    };
+    const time = [timings.dns, timings.connect, timings.wait, timings.receive].filter((t) => t > 0).reduce((a, b) => a + b, 0);
+
+    return {
+      ...(pageref ? { pageref } : {}),
+      startedDateTime: started.toISOString(),
+      time,
+      request: {
+        method: request.method(),
+        url,
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toHeaders(requestHeaders),
+        queryString,
+        ...(postData !== null ? { postData: { mimeType: requestHeaders["content-type"] ?? "", text: postData } } : {}),
+        headersSize: sizes?.requestHeadersSize ?? -1,
+        bodySize: sizes?.requestBodySize ?? 0,
+      },
+      response: {
+        // -1 for a request that never got a response, as Playwright's own HAR recorder writes it
+        status: response?.status() ?? -1,
+        statusText: response?.statusText() ?? "",
+        httpVersion: "HTTP/1.1",
+        cookies: [],
+        headers: toHeaders(responseHeaders),
+        content,
+        redirectURL: responseHeaders["location"] ?? "",
+        headersSize: sizes?.responseHeadersSize ?? -1,
+        bodySize: sizes?.responseBodySize ?? content.size,
+        ...(failure ? { _failureText: failure } : {}),
+      },
+      cache: {},
+      timings,
+      ...(serverIPAddress ? { serverIPAddress } : {}),
+    };
+  }
+
+  /** The tab a request came from, registered as a HAR page the first time it shows up. */
+  private pageref(request: Request, started: Date): string | undefined {
+    const tabId = this.tabOf(request);
+    if (tabId && !this.pages.has(tabId)) {
+      let title = "";
+      try {
+        title = request.frame().page().url();
+      } catch {
+        // Service worker requests have no frame
+      }
+      this.pages.set(tabId, { startedDateTime: started.toISOString(), id: tabId, title, pageTimings: {} });
+    }
+    return tabId;
+  }
+}
@@ -68,6 +68,14 @@ export function getSnapshotRoot(session: BrowserSession, frame?: string[]): Loca
   return session.page.locator(":root");
 }
 
+/**
+ * The <iframe> element hosting the innermost frame of a chain, as a locator in its parent frame.
+ * Gestures without a selector use it as their target area.
+ */
+export function getFrameOwner(session: BrowserSession, frame: string[]): Locator {
+  return chainFrame(session, frame).owner();
+}
+
 /**
  * Convert Playwright errors to AI-friendly messages with actionable guidance.
  */
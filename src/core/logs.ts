@@ -0,0 +1,77 @@
+import type { ConsoleFilter, ConsoleMessage, LogFilter, NetworkFilter, NetworkRequest, RealtimeEvent, RealtimeFilter } from "./types.js";
+
+/** Glob -> RegExp with Playwright's URL glob rules: `**` spans '/', `*` does not, everything else is literal. */
+export function globToRegExp(glob: string): RegExp {
+  let re = "";
+  for (let i = 0; i < glob.length; i++) {
+    const c = glob[i];
+    if (c === "*" && glob[i + 1] === "*") {
+      re += ".*";
+      i++;
+    } else if (c === "*") {
+      re += "[^/]*";
+    } else {
+      re += /[.+?^${}()|[\]\\]/.test(c) ? `\\${c}` : c;
+    }
+  }
+  return new RegExp(`^${re}$`);
+}
+
+function compilePattern(pattern: string): RegExp {
+  try {
+    return new RegExp(pattern);
+  } catch (e) {
+    throw new Error(`Invalid pattern '${pattern}': ${(e as Error).message}`);
+  }
+}
+
+/**
+ * Predicate for the filters both logs share. `pattern` tests `text` (message text or request
+ * URL), `url` tests `url` (page URL or request URL).
+ */
+function sharedFilter(filter: LogFilter): (entry: { seq: number; tabId: string; timestamp: number }, text: string, url: string) => boolean {
+  const pattern = filter.pattern !== undefined ? compilePattern(filter.pattern) : undefined;
+  const url = filter.url !== undefined ? globToRegExp(filter.url) : undefined;
+  return (entry, text, entryUrl) =>
+    (filter.tab === undefined || entry.tabId === filter.tab) &&
+    (filter.afterSeq === undefined || entry.seq > filter.afterSeq) &&
+    (filter.since === undefined || entry.timestamp >= filter.since) &&
+    (!pattern || pattern.test(text)) &&
+    (!url || url.test(entryUrl));
+}
+
+/** Console messages matching every given filter, oldest first. */
+export function filterConsole(messages: ConsoleMessage[], filter: ConsoleFilter): ConsoleMessage[] {
+  const shared = sharedFilter(filter);
+  const levels = filter.levels?.length ? new Set(filter.levels) : undefined;
+  return messages.filter((m) => shared(m, m.text, m.pageUrl) && (!levels || levels.has(m.type)));
+}
+
+/** Network requests matching every given filter, oldest first. A status range skips requests without a response. */
+export function filterNetwork(requests: NetworkRequest[], filter: NetworkFilter): NetworkRequest[] {
+  const shared = sharedFilter(filter);
+  const method = filter.method?.toUpperCase();
+  const types = filter.resourceTypes?.length ? new Set(filter.resourceTypes) : undefined;
+  const ranged = filter.statusMin !== undefined || filter.statusMax !== undefined;
+  return requests.filter((r) =>
+    shared(r, r.url, r.url) &&
+    (!method || r.method === method) &&
+    (!types || types.has(r.resourceType)) &&
+    (!ranged || (r.status !== undefined && r.status >= (filter.statusMin ?? 0) && r.status <= (filter.statusMax ?? Infinity))));
+}
+
+/** WebSocket/SSE events matching every given filter, oldest first. `pattern` tests the payload. */
+export function filterRealtime(events: RealtimeEvent[], filter: RealtimeFilter): RealtimeEvent[] {
+  const shared = sharedFilter(filter);
+  const types = filter.types?.length ? new Set(filter.types) : undefined;
+  return events.filter((e) =>
+    shared(e, e.payload ?? "", e.url) &&
+    (!filter.connectionId || e.connectionId === filter.connectionId) &&
+    (!filter.protocol || e.protocol === filter.protocol) &&
+    (!types || types.has(e.type)));
+}
+
+/** True when any filter beyond `clear` was given, for choosing the "no entries" wording. */
+export function isFiltered(filter: LogFilter): boolean {
+  return Object.entries(filter).some(([k, v]) => k !== "session" && k !== "clear" && v !== undefined);
+}
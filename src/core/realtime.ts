@@ -0,0 +1,68 @@
+/** Binding the page-side wrappers below report through (installed with context.exposeBinding). */
+export const REALTIME_BINDING = "__browserplexRealtime";
+
+/** Longest frame or event payload kept in the realtime log; longer ones are cut and marked truncated. */
+export const MAX_REALTIME_PAYLOAD = 1024;
+
+/** What the page-side wrappers report: EventSource activity, and the close code of a WebSocket. */
+export type RealtimeReport =
+  | { kind: "sse"; id: string; url: string; type: "open" | "received" | "error" | "close"; event?: string; data?: string; lastEventId?: string }
+  | { kind: "ws-close"; url: string; code: number; reason: string };
+
+/**
+ * Runs before page scripts in captureRealtime sessions. Playwright sees WebSocket frames but not
+ * close codes, and does not see EventSource messages at all, so WebSocket and EventSource are
+ * wrapped to report those through the binding. Custom SSE event types are reported once the page
+ * listens for them, which it must do to receive them anyway.
+ */
+export const REALTIME_INIT_SCRIPT = `(() => {
+  const report = (r) => { try { window.${REALTIME_BINDING}(r); } catch {} };
+  const NativeWebSocket = window.WebSocket;
+  if (NativeWebSocket) {
+    window.WebSocket = class extends NativeWebSocket {
+      constructor(...args) {
+        super(...args);
+        const url = this.url;
+        NativeWebSocket.prototype.addEventListener.call(this, "close", (e) => report({ kind: "ws-close", url, code: e.code, reason: e.reason }));
+      }
+    };
+  }
+  const NativeEventSource = window.EventSource;
+  if (NativeEventSource) {
+    const tag = Math.random().toString(36).slice(2);
+    let next = 0;
+    window.EventSource = class extends NativeEventSource {
+      constructor(...args) {
+        super(...args);
+        const id = tag + "-" + ++next;
+        const url = this.url;
+        const seen = new Set();
+        const listen = NativeEventSource.prototype.addEventListener.bind(this);
+        this.__browserplexWatch = (event) => {
+          if (seen.has(event) || event === "open" || event === "error") return;
+          seen.add(event);
+          listen(event, (e) => report({ kind: "sse", id, url, type: "received", event, data: String(e.data), lastEventId: e.lastEventId }));
+        };
+        this.__browserplexWatch("message");
+        listen("open", () => report({ kind: "sse", id, url, type: "open" }));
+        listen("error", () => report({ kind: "sse", id, url, type: this.readyState === NativeEventSource.CLOSED ? "close" : "error" }));
+      }
+      addEventListener(type, ...rest) {
+        this.__browserplexWatch(String(type));
+        return super.addEventListener(type, ...rest);
+      }
+    };
+  }
+})();`;
+
+/** Size and loggable form of a frame payload: text as-is, binary as base64, both cut to MAX_REALTIME_PAYLOAD. */
+export function payloadPreview(payload: string | Buffer): { size: number; payload: string; truncated?: boolean; binary?: boolean } {
+  if (typeof payload === "string") {
+    const size = Buffer.byteLength(payload);
+    return payload.length > MAX_REALTIME_PAYLOAD
+      ? { size, payload: payload.slice(0, MAX_REALTIME_PAYLOAD), truncated: true }
+      : { size, payload };
+  }
+  const preview = { size: payload.length, payload: payload.subarray(0, MAX_REALTIME_PAYLOAD).toString("base64"), binary: true };
+  return payload.length > MAX_REALTIME_PAYLOAD ? { ...preview, truncated: true } : preview;
+}
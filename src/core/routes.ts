@@ -0,0 +1,103 @@
+import { promises as fs } from "node:fs";
+import * as path from "node:path";
+import type { Route } from "playwright";
+import type { RouteRule, RouteSpec } from "./types.js";
+
+/** Error codes `route.abort` accepts. */
+export const ABORT_ERROR_CODES = [
+  "aborted",
+  "accessdenied",
+  "addressunreachable",
+  "blockedbyclient",
+  "blockedbyresponse",
+  "connectionaborted",
+  "connectionclosed",
+  "connectionfailed",
+  "connectionrefused",
+  "connectionreset",
+  "internetdisconnected",
+  "namenotresolved",
+  "timedout",
+  "failed",
+] as const;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Reject a route spec that could never work before registering it, rather than failing on the
+ * first request it matches.
+ */
+export async function validateRouteSpec(spec: RouteSpec): Promise<void> {
+  if (spec.regex) {
+    try {
+      new RegExp(spec.url);
+    } catch (e) {
+      throw new Error(`Invalid route regex '${spec.url}': ${(e as Error).message}`);
+    }
+  }
+  const fulfillOnly = (["status", "headers", "contentType", "body", "bodyFile"] as const).filter((k) => spec[k] !== undefined);
+  if (spec.action !== "fulfill" && fulfillOnly.length) {
+    throw new Error(`${fulfillOnly.join("/")} only apply to fulfill routes`);
+  }
+  if (spec.action !== "abort" && spec.errorCode !== undefined) {
+    throw new Error("errorCode only applies to abort routes");
+  }
+  if (spec.action !== "continue" && (spec.setHeaders !== undefined || spec.postData !== undefined)) {
+    throw new Error("setHeaders/postData only apply to continue routes");
+  }
+  if (spec.errorCode !== undefined && !(ABORT_ERROR_CODES as readonly string[]).includes(spec.errorCode)) {
+    throw new Error(`Unknown errorCode '${spec.errorCode}' (${ABORT_ERROR_CODES.join(", ")})`);
+  }
+  if (spec.body !== undefined && spec.bodyFile !== undefined) {
+    throw new Error("Pass either body or bodyFile, not both");
+  }
+  if (spec.bodyFile !== undefined) {
+    if (!path.isAbsolute(spec.bodyFile)) {
+      throw new Error("bodyFile must be an absolute path");
+    }
+    await fs.access(spec.bodyFile).catch(() => {
+      throw new Error(`bodyFile not found: ${spec.bodyFile}`);
+    });
+  }
+}
+
+/** The URL matcher `context.route`/`unroute` get for a rule. */
+export function routeMatcher(rule: RouteSpec): string | RegExp {
+  return rule.regex ? new RegExp(rule.url) : rule.url;
+}
+
+/**
+ * The handler behind a rule. Requests with another method fall back to older routes untouched;
+ * matched ones count a hit, wait out `delayMs`, then are fulfilled, aborted, or continued through
+ * the remaining routes with the rule's header/body changes.
+ */
+export function routeHandler(rule: RouteRule): (route: Route) => Promise<void> {
+  return async (route) => {
+    const request = route.request();
+    if (rule.method && request.method().toUpperCase() !== rule.method.toUpperCase()) {
+      await route.fallback();
+      return;
+    }
+    rule.hits++;
+    try {
+      if (rule.delayMs) await sleep(rule.delayMs);
+      if (rule.action === "abort") {
+        await route.abort(rule.errorCode ?? "failed");
+      } else if (rule.action === "fulfill") {
+        await route.fulfill({
+          status: rule.status ?? 200,
+          headers: rule.headers,
+          contentType: rule.contentType,
+          ...(rule.bodyFile !== undefined ? { path: rule.bodyFile } : { body: rule.body ?? "" }),
+        });
+      } else {
+        await route.fallback({
+          ...(rule.setHeaders ? { headers: { ...request.headers(), ...rule.setHeaders } } : {}),
+          ...(rule.postData !== undefined ? { postData: rule.postData } : {}),
+        });
+      }
+    } catch {
+      // The page or context went away while the request was held (e.g. during delayMs)
+    }
+  };
+}
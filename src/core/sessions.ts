@@ -1,29 +1,362 @@
-import { chromium, firefox, webkit, _electron, type Browser, type BrowserContext, type Page, type ElectronApplication } from 'playwright';
-import type { BrowserSession, BrowserType, SessionInfo, ConsoleMessage, NetworkRequest, DownloadRecord, ElectronLaunchOptions, TauriLaunchOptions } from './types.js';
+import { promises as fs } from 'node:fs';
+import * as path from 'node:path';
+import { chromium, firefox, webkit, _electron, devices, type Browser, type BrowserContext, type Page, type Request, type ElectronApplication, type CDPSession, type Route, type Response, type BrowserContextOptions } from 'playwright';
+import type { BrowserSession, BrowserType, SessionInfo, NetworkRequest, RealtimeEvent, BrowserLaunchOptions, EmulationOptions, ElectronLaunchOptions, TauriLaunchOptions, WarmPoolStats, SessionLease, SessionCheckpoint, SessionMetadata, SessionFilter, InitScript, PersistedSession, ExtensionInfo, PermissionGrant, Geolocation, NetworkConditions, RouteSpec, RouteRule, HarReplay, BlockSpec, NetworkWaitSpec } from './types.js';
 import { launchTauri, type TauriSession } from './tauri.js';
+import { extensionId, readExtensionManifest } from './extensions.js';
+import { validateRouteSpec, routeMatcher, routeHandler } from './routes.js';
+import { HarRecorder, type HarRecordOptions } from './har.js';
+import { validateBlockSpec, blocksAnything, blockRoutes, type BlockRoute } from './blocking.js';
+import { globToRegExp } from './logs.js';
+import { REALTIME_BINDING, REALTIME_INIT_SCRIPT, payloadPreview, type RealtimeReport } from './realtime.js';
+
+/**
+ * Profile-backed and attached sessions keep their own storage (and electron/tauri have none worth
+ * carrying), so checkpoints and the persistence manifest record only their URLs.
+ */
+function keepsOwnStorage(session: BrowserSession): boolean {
+  return session.type === 'electron' || session.type === 'tauri' || !!session.userDataDir || !!session.attachedTo;
+}
+
+function matchesFilter(info: SessionInfo, filter: SessionFilter, now: number): boolean {
+  const age = now - Date.parse(info.createdAt);
+  if (filter.type && info.type !== filter.type) return false;
+  if (filter.url && !info.url.includes(filter.url)) return false;
+  if (filter.olderThanMs !== undefined && age < filter.olderThanMs) return false;
+  if (filter.newerThanMs !== undefined && age > filter.newerThanMs) return false;
+  if (filter.labels && Object.entries(filter.labels).some(([k, v]) => info.labels?.[k] !== v)) return false;
+  return true;
+}
+
+/** Browser types driven through a Playwright Browser (everything except electron/tauri). */
+type PlaywrightType = 'chromium' | 'firefox' | 'webkit' | 'camoufox';
+
+/** Playwright engine behind a browser type (camoufox is a patched firefox). */
+function engineFor(type: PlaywrightType) {
+  return type === 'chromium' ? chromium : type === 'webkit' ? webkit : firefox;
+}
+
+type StorageStateSnapshot = Awaited<ReturnType<BrowserContext['storageState']>>;
+type CamoufoxLauncher = (opts: { headless: boolean; user_data_dir?: string } & Omit<BrowserContextOptions, 'storageState'>) => Promise<Browser | BrowserContext>;
+
+/**
+ * camoufox-js is an OPTIONAL dependency (stealth engine) — loaded lazily; install it to use this type.
+ * With user_data_dir it returns a persistent BrowserContext instead of a Browser; context options
+ * passed alongside go through to launchPersistentContext (proxy and locale via camoufox's own
+ * handling of them).
+ */
+async function loadCamoufox(): Promise<CamoufoxLauncher> {
+  try {
+    const { Camoufox } = (await import('camoufox-js')) as { Camoufox: CamoufoxLauncher };
+    return Camoufox;
+  } catch {
+    throw new Error("The 'camoufox' browser type requires the optional 'camoufox-js' package. Install it with: npm install camoufox-js");
+  }
+}
+
+/** Launch a fresh (non-persistent) browser process. */
+async function launchBrowser(type: PlaywrightType, headless: boolean): Promise<Browser> {
+  if (type === 'camoufox') {
+    return await (await loadCamoufox())({ headless }) as Browser;
+  }
+  return engineFor(type).launch({ headless });
+}
+
+const EMULATION_KEYS = ['viewport', 'deviceScaleFactor', 'isMobile', 'hasTouch', 'userAgent', 'locale', 'timezoneId', 'colorScheme', 'reducedMotion'] as const;
+
+/**
+ * Launch options that load unpacked extensions. The full chromium build is used (the default
+ * headless shell cannot run extensions), in its new headless mode when headless.
+ */
+function extensionLaunchOptions(extensions?: string[]): { channel?: string; args?: string[] } {
+  if (!extensions) return {};
+  const dirs = extensions.join(',');
+  return { channel: 'chromium', args: [`--disable-extensions-except=${dirs}`, `--load-extension=${dirs}`] };
+}
+
+/**
+ * Apply a storageState snapshot to a persistent context, which launchPersistentContext does not
+ * take as an option: cookies directly, and each origin's localStorage from a throwaway page that
+ * is served an empty document instead of reaching the network.
+ */
+async function seedStorageState(context: BrowserContext, state: object): Promise<void> {
+  const { cookies = [], origins = [] } = state as Partial<StorageStateSnapshot>;
+  if (cookies.length) await context.addCookies(cookies);
+  if (!origins.length) return;
+  const page = await context.newPage();
+  try {
+    await page.route('**/*', (route) => route.fulfill({ contentType: 'text/html', body: '<html></html>' }));
+    for (const { origin, localStorage } of origins) {
+      await page.goto(origin);
+      await page.evaluate((items) => {
+        for (const { name, value } of items) window.localStorage.setItem(name, value);
+      }, localStorage);
+    }
+  } finally {
+    await page.close();
+  }
+}
+
+/** Named network conditions, matching the DevTools throttling presets. */
+const NETWORK_PRESETS: Record<string, NetworkConditions> = {
+  'slow-3g': { latencyMs: 2000, downloadKbps: 400, uploadKbps: 400 },
+  'fast-3g': { latencyMs: 563, downloadKbps: 1440, uploadKbps: 675 },
+  offline: { offline: true },
+};
+
+/** Fill conditions from their preset; explicit fields win. */
+function resolveNetworkConditions(conditions: NetworkConditions): NetworkConditions {
+  if (!conditions.preset) return conditions;
+  const preset = NETWORK_PRESETS[conditions.preset];
+  if (!preset) {
+    throw new Error(`Unknown network preset '${conditions.preset}' (${Object.keys(NETWORK_PRESETS).join(', ')})`);
+  }
+  const explicit = Object.fromEntries(Object.entries(conditions).filter(([, v]) => v !== undefined));
+  return { ...preset, ...explicit };
+}
+
+/** Armed-but-uncollected network waits allowed per session, each holding a context listener. */
+const MAX_NETWORK_WAITS = 50;
+
+/** Longest request body kept in the network log, in characters. */
+const MAX_POST_DATA = 64 * 1024;
+
+/** True when the conditions need CDP (anything beyond offline). */
+function throttles(c?: NetworkConditions): boolean {
+  return !!c && (c.latencyMs !== undefined || c.downloadKbps !== undefined || c.uploadKbps !== undefined || c.cpuThrottlingRate !== undefined);
+}
+
+/** Grant each recorded permission set and set the emulated position on a context. */
+async function applyPermissions(context: BrowserContext, grants: PermissionGrant[] = [], geolocation?: Geolocation): Promise<void> {
+  for (const grant of grants) {
+    await context.grantPermissions(grant.permissions, grant.origin ? { origin: grant.origin } : undefined);
+  }
+  if (geolocation) await context.setGeolocation(geolocation);
+}
+
+/** Answer a context's requests from a recorded HAR; the file must exist up front. */
+async function routeFromHar(context: BrowserContext, replay: HarReplay): Promise<void> {
+  if (!path.isAbsolute(replay.path)) {
+    throw new Error(`HAR path must be absolute, got: ${replay.path}`);
+  }
+  await fs.access(replay.path).catch(() => {
+    throw new Error(`HAR file not found: ${replay.path}`);
+  });
+  await context.routeFromHAR(replay.path, { url: replay.url, notFound: replay.notFound ?? 'abort' });
+}
+
+/**
+ * Expand a `device` preset from Playwright's registry and lay explicit fields over it, so
+ * `device: "iPhone 13", locale: "de-DE"` works. Returns undefined when nothing is set.
+ */
+function resolveEmulation(emulation?: EmulationOptions): EmulationOptions | undefined {
+  if (!emulation) return undefined;
+  const resolved: EmulationOptions = {};
+  if (emulation.device) {
+    const preset = devices[emulation.device];
+    if (!preset) {
+      throw new Error(`Unknown device '${emulation.device}'. Use a name from Playwright's devices registry, e.g. 'iPhone 13' or 'Pixel 7'`);
+    }
+    resolved.device = emulation.device;
+    for (const key of EMULATION_KEYS) {
+      if (key in preset) Object.assign(resolved, { [key]: preset[key as keyof typeof preset] });
+    }
+  }
+  for (const key of EMULATION_KEYS) {
+    if (emulation[key] !== undefined) Object.assign(resolved, { [key]: emulation[key] });
+  }
+  return Object.keys(resolved).length > 0 ? resolved : undefined;
+}
+
+/** A shared browser process in pooled mode, with the sessions currently holding a context in it. */
+interface PoolEntry {
+  browser: Promise<Browser>;
+  sessions: Set<string>;
+}
+
+/** Idle pre-launched browsers plus hit/miss counters (daemon warm pool). */
+interface WarmPool {
+  size: number;
+  type: PlaywrightType;
+  headless: boolean;
+  ready: Browser[];
+  launching: number;
+  hits: number;
+  misses: number;
+}
+
+/** How often leased sessions are checked for expiry. */
+const LEASE_CHECK_MS = 1000;
 
 class SessionManager {
   private sessions: Map<string, BrowserSession> = new Map();
+  private leaseTimer: ReturnType<typeof setInterval> | null = null;
+  private expireListeners: Array<(name: string, reason: string) => void> = [];
+  private recoveries: Map<string, Promise<BrowserSession>> = new Map();
+  /** Actions running per session name; the idle reaper leaves a session alone while any are. */
+  private inFlight: Map<string, number> = new Map();
+  /** Sessions saved by a previous daemon run, restored the first time they are asked for. */
+  private dormant: Map<string, PersistedSession> = new Map();
+  /** Shared browsers for pooled sessions, keyed `${type}:headless|headed`. */
+  private pool: Map<string, PoolEntry> = new Map();
+  private warm: WarmPool | undefined;
+  /** One CDP session per chromium page, kept open: emulation set through it lasts only while it is attached. */
+  private cdpSessions = new WeakMap<Page, Promise<CDPSession>>();
+  /** The context.route handler registered for each rule, needed again to unroute it. */
+  private routeHandlers = new WeakMap<RouteRule, (route: Route) => Promise<void>>();
+  /** The context routes behind each session's blocking, and why each blocked request was stopped. */
+  private blockHandlers = new WeakMap<BrowserSession, BlockRoute[]>();
+  private blockedRequests = new WeakMap<Request, string>();
 
-  async create(name: string, type: BrowserType = 'chromium', headless: boolean = true, launch?: ElectronLaunchOptions | TauriLaunchOptions): Promise<BrowserSession> {
+  /**
+   * Keep `size` idle browsers of one launch shape ready so session_create skips the cold launch.
+   * Claimed browsers are replaced in the background. Warm browsers are not sessions, so they never
+   * count against the daemon's idle check. `size` 0 drains and disables the pool.
+   */
+  configureWarmPool(size: number, type: PlaywrightType = 'chromium', headless: boolean = true): void {
+    void this.drainWarmPool();
+    if (size <= 0) return;
+    this.warm = { size, type, headless, ready: [], launching: 0, hits: 0, misses: 0 };
+    this.topUpWarmPool();
+  }
+
+  warmPoolStats(): WarmPoolStats | undefined {
+    const warm = this.warm;
+    if (!warm) return undefined;
+    const { size, type, headless, launching, hits, misses } = warm;
+    return { size, type, headless, ready: warm.ready.length, launching, hits, misses };
+  }
+
+  /** Close every idle warm browser and disable the pool (daemon shutdown). */
+  async drainWarmPool(): Promise<void> {
+    const warm = this.warm;
+    this.warm = undefined;
+    if (!warm) return;
+    const ready = warm.ready.splice(0);
+    await Promise.all(ready.map((b) => b.close().catch(() => {})));
+  }
+
+  /** Launch browsers in the background until ready + launching reaches the target size. */
+  private topUpWarmPool(): void {
+    const warm = this.warm;
+    if (!warm) return;
+    while (warm.ready.length + warm.launching < warm.size) {
+      warm.launching++;
+      launchBrowser(warm.type, warm.headless)
+        .then((browser) => {
+          if (this.warm !== warm) {
+            // Drained or reconfigured while launching — this browser has no pool to join.
+            void browser.close().catch(() => {});
+            return;
+          }
+          browser.on('disconnected', () => {
+            const i = warm.ready.indexOf(browser);
+            if (i >= 0) warm.ready.splice(i, 1);
+          });
+          warm.ready.push(browser);
+        })
+        .catch(() => {
+          // Launch failed (e.g. browser binary missing). Don't retry in a loop; the next claim
+          // tops up again and a miss falls back to a normal launch that surfaces the real error.
+        })
+        .finally(() => {
+          warm.launching--;
+        });
+    }
+  }
+
+  /**
+   * Take a warm browser when the requested launch shape matches the pool; undefined otherwise.
+   * The pool stops tracking it, so the caller must close it if it goes unused.
+   */
+  private claimWarm(type: PlaywrightType, headless: boolean): Browser | undefined {
+    const warm = this.warm;
+    if (!warm || warm.type !== type || warm.headless !== headless) return undefined;
+    const browser = warm.ready.shift();
+    if (browser) warm.hits++;
+    else warm.misses++;
+    this.topUpWarmPool();
+    return browser;
+  }
+
+  async create(name: string, type: BrowserType = 'chromium', headless: boolean = true, launch?: BrowserLaunchOptions | ElectronLaunchOptions | TauriLaunchOptions): Promise<BrowserSession> {
     return this.createWithStorage(name, type, headless, undefined, launch);
   }
 
-  async createWithStorage(name: string, type: BrowserType = 'chromium', headless: boolean = true, storageState?: object, launch?: ElectronLaunchOptions | TauriLaunchOptions): Promise<BrowserSession> {
+  async createWithStorage(name: string, type: BrowserType = 'chromium', headless: boolean = true, storageState?: object, launch?: BrowserLaunchOptions | ElectronLaunchOptions | TauriLaunchOptions): Promise<BrowserSession> {
     if (this.sessions.has(name)) {
       throw new Error(`Session '${name}' already exists`);
     }
+    if (this.dormant.has(name)) {
+      throw new Error(`Session '${name}' already exists (saved by a previous daemon run; destroy it first to reuse the name)`);
+    }
+
+    const browserLaunch = type === 'electron' || type === 'tauri' ? undefined : launch as BrowserLaunchOptions | undefined;
+    const userDataDir = browserLaunch?.userDataDir;
+    const attachedTo = browserLaunch?.cdpUrl ?? browserLaunch?.wsEndpoint;
+    const extensions = browserLaunch?.extensions?.length ? browserLaunch.extensions : undefined;
+    if (extensions && type !== 'chromium') {
+      throw new Error(`extensions are only supported for chromium sessions, got ${type}`);
+    }
+    if (browserLaunch?.captureRealtime && (type === 'camoufox' || attachedTo)) {
+      // The wrappers are visible to pages: they would undo camoufox's stealth, or touch someone else's browser
+      throw new Error(`captureRealtime is not supported for ${attachedTo ? 'attached' : 'camoufox'} sessions`);
+    }
+    if (attachedTo) {
+      if (browserLaunch?.cdpUrl && browserLaunch?.wsEndpoint) {
+        throw new Error('Pass either cdpUrl or wsEndpoint, not both');
+      }
+      if (browserLaunch?.cdpUrl && type !== 'chromium') {
+        throw new Error(`cdpUrl is only supported for chromium sessions, got ${type}`);
+      }
+      if (userDataDir || storageState || browserLaunch?.emulation || browserLaunch?.network || extensions) {
+        throw new Error('An attached session uses the remote browser\'s own context; userDataDir/storageState/emulation/network/extensions options do not apply');
+      }
+    }
+    const poolKey = browserLaunch?.pooled ? `${type}:${headless ? 'headless' : 'headed'}` : undefined;
+    if (poolKey && (userDataDir || attachedTo || extensions)) {
+      throw new Error('pooled cannot be combined with userDataDir, extensions or an attach endpoint');
+    }
+    if (userDataDir) {
+      if (storageState) {
+        throw new Error('storageState cannot be combined with userDataDir — the profile already persists its own storage');
+      }
+      // A profile dir can only be opened by one browser at a time (the engine holds a lock on it).
+      const holder = Array.from(this.sessions.values()).find((s) => s.userDataDir === userDataDir);
+      if (holder) {
+        throw new Error(`Profile '${userDataDir}' is already in use by session '${holder.name}'`);
+      }
+    }
 
     let browser: Browser | BrowserContext | ElectronApplication | TauriSession;
     let context: BrowserContext;
     let page: Page;
     let tauri: TauriSession | undefined;
 
-    // Context options with optional storage state
+    const emulation = resolveEmulation(browserLaunch?.emulation);
+    const { device: _device, ...emulationOptions } = emulation ?? {};
+
+    // Context options with optional emulation, network (proxy/auth/headers) and storage state
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const contextOptions = { acceptDownloads: true, ...(storageState ? { storageState: storageState as any } : {}) };
+    const contextOptions = { acceptDownloads: true, ...emulationOptions, ...browserLaunch?.network, ...(storageState ? { storageState: storageState as any } : {}) };
+
+    const { storageState: _storageState, ...persistentOptions } = contextOptions;
 
-    if (type === 'tauri') {
+    if (attachedTo) {
+      // Attach to a browser someone else launched (a human's Chrome, a test harness). Drive its
+      // existing context and page rather than opening fresh ones; headless does not apply.
+      const remote = browserLaunch?.cdpUrl
+        ? await chromium.connectOverCDP(browserLaunch.cdpUrl)
+        : await engineFor(type as PlaywrightType).connect(attachedTo);
+      try {
+        browser = remote;
+        context = remote.contexts()[0] ?? await remote.newContext(contextOptions);
+        page = context.pages()[0] ?? await context.newPage();
+      } catch (e) {
+        await remote.close().catch(() => {});
+        throw e;
+      }
+    } else if (type === 'tauri') {
       tauri = await launchTauri(launch as TauriLaunchOptions | undefined);
       browser = tauri;
       context = undefined as unknown as BrowserContext;
@@ -49,123 +382,1122 @@ class SessionManager {
         await app.close().catch(() => {});
         throw e;
       }
-    } else if (type === 'chromium') {
-      browser = await chromium.launch({ headless });
-      context = await browser.newContext(contextOptions);
-      page = await context.newPage();
-    } else if (type === 'firefox') {
-      browser = await firefox.launch({ headless });
-      context = await browser.newContext(contextOptions);
-      page = await context.newPage();
-    } else if (type === 'webkit') {
-      browser = await webkit.launch({ headless });
-      context = await browser.newContext(contextOptions);
-      page = await context.newPage();
-    } else if (type === 'camoufox') {
-      // camoufox-js is an OPTIONAL dependency (stealth engine) — loaded lazily; install it to use this type.
-      let Camoufox: (opts: { headless: boolean }) => Promise<Browser>;
+    } else if (poolKey) {
+      // Pooled: one shared Browser per (engine, headless); this session gets its own isolated
+      // context. The shared browser closes when its last session is destroyed.
+      const shared = await this.acquirePooled(poolKey, name, () => launchBrowser(type as PlaywrightType, headless));
+      let pooledContext: BrowserContext | undefined;
       try {
-        ({ Camoufox } = (await import('camoufox-js')) as { Camoufox: typeof Camoufox });
-      } catch {
-        throw new Error("The 'camoufox' browser type requires the optional 'camoufox-js' package. Install it with: npm install camoufox-js");
+        const ctx = await shared.newContext(contextOptions);
+        pooledContext = ctx;
+        page = await ctx.newPage();
+        context = ctx;
+        browser = shared;
+      } catch (e) {
+        await pooledContext?.close().catch(() => {});
+        await this.releasePooled(poolKey, name);
+        throw e;
+      }
+    } else if (type === 'chromium' || type === 'firefox' || type === 'webkit' || type === 'camoufox') {
+      if (userDataDir || extensions) {
+        // Persistent profile: the context IS the browser (there is no separate Browser handle),
+        // and it opens with a blank page already. Chromium only loads extensions into a
+        // persistent context, so without userDataDir they get a throwaway profile ('' makes
+        // Playwright create a temp dir and remove it on close).
+        context = type === 'camoufox'
+          ? await (await loadCamoufox())({ headless, user_data_dir: userDataDir, ...persistentOptions }) as BrowserContext
+          : await engineFor(type).launchPersistentContext(userDataDir ?? '', { headless, ...persistentOptions, ...extensionLaunchOptions(extensions) });
+        browser = context;
+        try {
+          if (storageState) await seedStorageState(context, storageState);
+          page = context.pages()[0] ?? await context.newPage();
+        } catch (e) {
+          await context.close().catch(() => {});
+          throw e;
+        }
+      } else {
+        const launched = this.claimWarm(type, headless) ?? await launchBrowser(type, headless);
+        browser = launched;
+        try {
+          context = await launched.newContext(contextOptions);
+          page = await context.newPage();
+        } catch (e) {
+          // A bad proxy or header value fails here, after the browser is up. A claimed warm
+          // browser is ours to close too: the pool stopped tracking it when it was handed out.
+          await launched.close().catch(() => {});
+          throw e;
+        }
       }
-      browser = await Camoufox({ headless }) as Browser;
-      context = await browser.newContext(contextOptions);
-      page = await context.newPage();
     } else {
       throw new Error(`Unknown browser type: ${type}`);
     }
 
-    const consoleMessages: ConsoleMessage[] = [];
-    const networkRequests: NetworkRequest[] = [];
-    const downloads: DownloadRecord[] = [];
+    const session: BrowserSession = {
+      name,
+      type,
+      browser,
+      context,
+      page,
+      createdAt: new Date(),
+      consoleMessages: [],
+      networkRequests: [],
+      realtimeEvents: [],
+      downloads: [],
+      tabIds: new Map(),
+      unclaimedTabs: [],
+      refMap: {},
+      tauri,
+      userDataDir,
+      attachedTo,
+      emulation,
+      poolKey,
+      headless,
+      launch,
+      lastActivityAt: new Date(),
+      initScripts: [],
+      nextInitScriptId: 1,
+      routes: [],
+      nextRouteId: 1,
+      harReplays: [],
+      blockedCounts: {},
+      networkWaits: new Map(),
+      nextWaitId: 1,
+    };
+
+    this.sessions.set(name, session);
+    const onRealtimeReport = this.track(session);
+    this.watch(session);
+    try {
+      if (browserLaunch?.captureRealtime && onRealtimeReport) {
+        await context.exposeBinding(REALTIME_BINDING, ({ page }, report: RealtimeReport) => onRealtimeReport(page, report));
+        await context.addInitScript(REALTIME_INIT_SCRIPT);
+      }
+      if (browserLaunch?.permissions?.length || browserLaunch?.geolocation) {
+        await applyPermissions(context, browserLaunch.permissions, browserLaunch.geolocation);
+      }
+      if (browserLaunch?.replayHar) {
+        await routeFromHar(context, { path: browserLaunch.replayHar });
+      }
+      if (blocksAnything(browserLaunch?.blockResources)) {
+        await this.applyBlock(session, browserLaunch.blockResources);
+      }
+    } catch (e) {
+      await this.destroy(name).catch(() => {});
+      throw e;
+    }
+    return session;
+  }
+
+  /**
+   * Capture console, network, WebSocket traffic and downloads from every page in the session — the
+   * first one, tabs opened later, popups, extra Electron windows — and give each page a stable tab
+   * id. Returns the handler for what the page-side realtime wrappers report.
+   */
+  private track(session: BrowserSession): ((page: Page, report: RealtimeReport) => void) | undefined {
+    if (session.type === 'tauri') return undefined;
+    let nextTabId = 1;
     let nextDownloadId = 1;
+    let nextRequestId = 1;
+    let nextConsoleSeq = 1;
+    let nextRealtimeSeq = 1;
+    let nextSocketId = 1;
+    let nextStreamId = 1;
+    // Page-side EventSource id -> sse id
+    const streams = new Map<string, string>();
+    // Playwright reports a WebSocket closing but not its code; the page wrapper reports the code.
+    // Whichever arrives first waits here, keyed by tab and URL, for the other.
+    const unmatchedCloses = new Map<string, RealtimeEvent[]>();
+    const unmatchedCodes = new Map<string, { code: number; reason: string }[]>();
+    const logRealtime = (event: Omit<RealtimeEvent, 'seq'>): RealtimeEvent => {
+      const entry = { seq: nextRealtimeSeq++, ...event };
+      session.realtimeEvents.push(entry);
+      if (session.realtimeEvents.length > 1000) {
+        session.realtimeEvents.shift();
+      }
+      return entry;
+    };
+    const take = <T>(map: Map<string, T[]>, key: string): T | undefined => {
+      const item = map.get(key)?.shift();
+      if (map.get(key)?.length === 0) map.delete(key);
+      return item;
+    };
+    const queue = <T>(map: Map<string, T[]>, key: string, item: T) => map.set(key, [...(map.get(key) ?? []), item]);
+    const pending = new WeakMap<Request, NetworkRequest>();
+    const settle = (request: Request, failure?: string) => {
+      const record = pending.get(request);
+      if (!record) return;
+      record.timing = request.timing();
+      if (record.timing.responseEnd >= 0) record.durationMs = Math.round(record.timing.responseEnd);
+      if (failure !== undefined) record.failure = failure;
+      const blocked = this.blockedRequests.get(request);
+      if (blocked) record.blocked = blocked;
+    };
+
+    const trackPage = (page: Page, initial = false) => {
+      if (session.tabIds.has(page)) return;
+      const tabId = `t${nextTabId++}`;
+      session.tabIds.set(page, tabId);
+      page.once('close', () => {
+        session.tabIds.delete(page);
+        session.unclaimedTabs = session.unclaimedTabs.filter((p) => p !== page);
+      });
+      if (!initial) {
+        session.unclaimedTabs.push(page);
+        if (session.unclaimedTabs.length > 50) session.unclaimedTabs.shift();
+        // setOffline covers new pages by itself; CDP throttling has to be pushed to each one
+        if (throttles(session.networkConditions)) void this.throttle(session, page).catch(() => {});
+      }
 
-    if (type !== 'tauri') {
-      // Set up console message listener
       page.on('console', (msg) => {
-        consoleMessages.push({
+        session.consoleMessages.push({
+          seq: nextConsoleSeq++,
           type: msg.type(),
           text: msg.text(),
           timestamp: Date.now(),
+          tabId,
+          pageUrl: page.url(),
         });
         // Keep only last 1000 messages
-        if (consoleMessages.length > 1000) {
-          consoleMessages.shift();
+        if (session.consoleMessages.length > 1000) {
+          session.consoleMessages.shift();
         }
       });
 
-      // Set up network request listener
       page.on('request', (request) => {
-        networkRequests.push({
+        const seq = nextRequestId++;
+        const record: NetworkRequest = {
+          id: `n${seq}`,
+          seq,
           url: request.url(),
           method: request.method(),
+          resourceType: request.resourceType(),
           timestamp: Date.now(),
-        });
+          tabId,
+          pageUrl: page.url(),
+          requestHeaders: request.headers(),
+        };
+        const postData = request.postData();
+        if (postData !== null) {
+          record.postData = postData.length > MAX_POST_DATA ? postData.slice(0, MAX_POST_DATA) : postData;
+          if (postData.length > MAX_POST_DATA) record.postDataTruncated = true;
+        }
+        const from = request.redirectedFrom();
+        if (from) {
+          record.redirectChain = [];
+          for (let hop: Request | null = from; hop; hop = hop.redirectedFrom()) record.redirectChain.unshift(hop.url());
+          const previous = pending.get(from);
+          if (previous) record.redirectedFrom = previous.id;
+        }
+        pending.set(request, record);
+        session.networkRequests.push(record);
         // Keep only last 1000 requests
-        if (networkRequests.length > 1000) {
-          networkRequests.shift();
+        if (session.networkRequests.length > 1000) {
+          session.networkRequests.shift();
         }
       });
 
       page.on('response', (response) => {
-        const req = networkRequests.find(r => r.url === response.url() && !r.status);
-        if (req) {
-          req.status = response.status();
+        const record = pending.get(response.request());
+        if (record) {
+          record.status = response.status();
+          record.statusText = response.statusText();
+          record.response = response;
+          // The full header sets (cookies included) need a round trip to the browser
+          void Promise.all([response.request().allHeaders(), response.allHeaders()]).then(([req, res]) => {
+            record.requestHeaders = req;
+            record.responseHeaders = res;
+          }, () => {});
         }
       });
 
+      page.on('requestfinished', (request) => settle(request));
+      page.on('requestfailed', (request) => settle(request, request.failure()?.errorText ?? 'failed'));
+
+      page.on('websocket', (ws) => {
+        const connectionId = `ws${nextSocketId++}`;
+        const base = { connectionId, protocol: 'websocket' as const, url: ws.url(), tabId };
+        logRealtime({ ...base, type: 'open', timestamp: Date.now(), pageUrl: page.url() });
+        ws.on('framesent', ({ payload }) => logRealtime({ ...base, type: 'sent', timestamp: Date.now(), pageUrl: page.url(), ...payloadPreview(payload) }));
+        ws.on('framereceived', ({ payload }) => logRealtime({ ...base, type: 'received', timestamp: Date.now(), pageUrl: page.url(), ...payloadPreview(payload) }));
+        ws.on('socketerror', (error) => logRealtime({ ...base, type: 'error', timestamp: Date.now(), pageUrl: page.url(), error }));
+        ws.on('close', () => {
+          const entry = logRealtime({ ...base, type: 'close', timestamp: Date.now(), pageUrl: page.url() });
+          const key = `${tabId} ${base.url}`;
+          const code = take(unmatchedCodes, key);
+          if (code) Object.assign(entry, code);
+          else queue(unmatchedCloses, key, entry);
+        });
+      });
+
       page.on('download', (download) => {
-        downloads.push({
+        session.downloads.push({
           id: `d${nextDownloadId++}`,
           suggestedFilename: download.suggestedFilename(),
           url: download.url(),
           createdAt: new Date().toISOString(),
+          tabId,
+          pageUrl: page.url(),
           download,
         });
-        if (downloads.length > 100) {
-          downloads.shift();
+        if (session.downloads.length > 100) {
+          session.downloads.shift();
         }
       });
+    };
+
+    const onRealtimeReport = (page: Page, report: RealtimeReport) => {
+      const tabId = session.tabIds.get(page);
+      if (!tabId) return;
+      if (report.kind === 'ws-close') {
+        const key = `${tabId} ${report.url}`;
+        const close = { code: report.code, reason: report.reason };
+        const entry = take(unmatchedCloses, key);
+        if (entry) Object.assign(entry, close);
+        else queue(unmatchedCodes, key, close);
+        return;
+      }
+      const known = streams.get(report.id);
+      const connectionId = known ?? `sse${nextStreamId++}`;
+      if (!known) streams.set(report.id, connectionId);
+      const entry: Omit<RealtimeEvent, 'seq'> = { connectionId, protocol: 'sse', type: report.type, url: report.url, timestamp: Date.now(), tabId, pageUrl: page.url() };
+      if (report.type === 'received') {
+        Object.assign(entry, { event: report.event, ...payloadPreview(report.data ?? '') });
+        if (report.lastEventId) entry.lastEventId = report.lastEventId;
+      }
+      logRealtime(entry);
+    };
+
+    session.context.pages().forEach((page) => trackPage(page, true));
+    session.context.on('page', (page) => trackPage(page));
+    if (session.type === 'electron') {
+      // Extra Electron windows surface as 'window' on the app; trackPage skips ones already seen.
+      (session.browser as ElectronApplication).on('window', (page) => trackPage(page));
     }
+    return onRealtimeReport;
+  }
 
-    const session: BrowserSession = {
-      name,
-      type,
-      browser,
-      context,
-      page,
-      createdAt: new Date(),
-      consoleMessages,
-      networkRequests,
-      downloads,
-      refMap: {},
-      tauri,
+  /**
+   * Hand out the oldest tab opened since creation that nobody has claimed yet, waiting up to
+   * `timeoutMs` for one to open. Tabs opened before the call count, so a popup raised by the
+   * previous click is not missed.
+   */
+  async waitForNewTab(name: string, timeoutMs: number): Promise<Page> {
+    const session = await this.acquire(name);
+    if (session.unclaimedTabs.length === 0) {
+      await session.context.waitForEvent('page', { timeout: timeoutMs });
+    }
+    const page = session.unclaimedTabs.shift();
+    if (!page) {
+      throw new Error('A new tab opened but closed again before it could be claimed');
+    }
+    return page;
+  }
+
+  /** Mark a tab as known (e.g. one browser_tabs new opened itself) so wait_new skips it. */
+  claimTab(session: BrowserSession, page: Page): void {
+    session.unclaimedTabs = session.unclaimedTabs.filter((p) => p !== page);
+  }
+
+  /**
+   * Mark the session dead when its active page crashes or its browser/app process goes away.
+   * Also refreshes the recovery checkpoint on every page load.
+   */
+  private watch(session: BrowserSession): void {
+    const kill = (reason: string) => this.markDead(session, reason);
+    if (session.type === 'tauri') {
+      session.tauri?.child.once('exit', (code, signal) => kill(`tauri app exited (${signal ?? `code ${code}`})`));
+      return;
+    }
+    if (session.type === 'electron') {
+      (session.browser as ElectronApplication).once('close', () => kill('electron app exited'));
+    } else if (session.browser === session.context) {
+      session.context.once('close', () => kill('browser closed'));
+    } else {
+      (session.browser as Browser).once('disconnected', () => kill('browser disconnected'));
+    }
+    const watchPage = (page: Page) => {
+      page.on('crash', () => {
+        if (page === session.page) kill(`page crashed at ${page.url()}`);
+      });
+      page.on('load', () => void this.checkpoint(session));
     };
+    session.context.pages().forEach(watchPage);
+    session.context.on('page', watchPage);
+  }
 
-    this.sessions.set(name, session);
+  /** Sessions torn down on purpose are already out of the map, so their close events are ignored here. */
+  private markDead(session: BrowserSession, reason: string): void {
+    if (this.sessions.get(session.name) !== session || session.dead) return;
+    session.dead = reason;
+  }
+
+  /**
+   * Remember what a recovery should restore. Profile-backed and attached sessions keep their
+   * own storage, and electron/tauri have none to carry over, so only the URL is recorded for them.
+   */
+  private async checkpoint(session: BrowserSession): Promise<void> {
+    if (!session.autoRecover || session.dead || session.type === 'tauri') return;
+    try {
+      const url = session.page.url();
+      const checkpoint: SessionCheckpoint = { url };
+      if (!keepsOwnStorage(session)) checkpoint.storageState = await session.context.storageState();
+      session.checkpoint = checkpoint;
+    } catch {
+      // Browser going away mid-checkpoint — keep the previous one
+    }
+  }
+
+  /**
+   * Replace a dead session with a fresh launch of the same shape: same type/headless/launch
+   * options, the last checkpointed storage state and URL, and the original lease.
+   */
+  private async recover(session: BrowserSession): Promise<BrowserSession> {
+    const { name, type, headless, launch, checkpoint } = session;
+    await this.destroy(name).catch(() => {});
+    let fresh: BrowserSession;
+    try {
+      fresh = await this.createWithStorage(name, type, headless, checkpoint?.storageState, launch);
+    } catch (e) {
+      throw new Error(`Session '${name}' died (${session.dead}) and could not be recovered: ${(e as Error).message}`);
+    }
+    fresh.createdAt = session.createdAt;
+    fresh.ttlMs = session.ttlMs;
+    fresh.idleTimeoutMs = session.idleTimeoutMs;
+    fresh.autoRecover = true;
+    fresh.checkpoint = checkpoint;
+    fresh.labels = session.labels;
+    fresh.description = session.description;
+    fresh.owner = session.owner;
+    this.scheduleLeaseCheck();
+    await this.replayInitScripts(fresh, session);
+    await this.replayRoutes(fresh, session);
+    // An Electron app opens its own window content; only browser sessions navigate back.
+    const url = type !== 'electron' && checkpoint?.url && checkpoint.url !== 'about:blank' ? checkpoint.url : undefined;
+    let restored = false;
+    if (url) {
+      restored = await fresh.page.goto(url, { waitUntil: 'domcontentloaded' }).then(() => true, () => false);
+    }
+    // After navigating back, so an offline session can still reload its page
+    if (session.networkConditions) await this.applyNetworkConditions(fresh, session.networkConditions);
+    fresh.recoveryNotice = `Session '${name}' was recovered after it died (${session.dead}): relaunched ${type}` +
+      (url ? (restored ? ` and restored ${url}` : `, but could not reopen ${url}`) : '') +
+      (session.har ? `; its HAR recording stopped and was written to ${session.har.path}` : '');
+    return fresh;
+  }
+
+  /**
+   * Branch a live session into a new one of the same type: the source context's storageState
+   * (in memory — nothing is written to disk), launch options, emulation + current viewport, and
+   * every open tab's URL. The fork's active tab mirrors the source's. Persistent profiles and
+   * attach endpoints are not shared; the fork is a fresh launch seeded from them.
+   */
+  async fork(source: string, name: string): Promise<BrowserSession> {
+    const src = await this.acquire(source);
+    if (src.type === 'electron' || src.type === 'tauri') {
+      throw new Error(`session_fork is not supported for ${src.type} sessions`);
+    }
+    const storageState = await src.context.storageState();
+    const viewport = src.page.viewportSize();
+    const pages = src.context.pages();
+    const urls = pages.map((p) => p.url());
+    const activeIndex = Math.max(0, pages.indexOf(src.page));
+
+    const { userDataDir: _dir, cdpUrl: _cdp, wsEndpoint: _ws, ...launch } = (src.launch ?? {}) as BrowserLaunchOptions;
+    const fork = await this.createWithStorage(name, src.type, src.headless, storageState, {
+      ...launch,
+      emulation: { ...src.emulation, ...(viewport ? { viewport } : {}) },
+    });
+    fork.labels = src.labels && { ...src.labels };
+    fork.description = src.description;
+    try {
+      await this.replayInitScripts(fork, src);
+      await this.replayRoutes(fork, src);
+      await this.openTabs(fork, urls, activeIndex);
+      if (src.networkConditions) await this.applyNetworkConditions(fork, src.networkConditions);
+    } catch (e) {
+      await this.destroy(name).catch(() => {});
+      throw e;
+    }
+    return fork;
+  }
+
+  /** Open one tab per URL (the session's first page takes the first) and activate `activeIndex`. */
+  private async openTabs(session: BrowserSession, urls: string[], activeIndex: number): Promise<void> {
+    const pages = [session.page];
+    for (let i = 1; i < urls.length; i++) {
+      pages.push(await session.context.newPage());
+    }
+    for (let i = 0; i < urls.length; i++) {
+      if (urls[i] && urls[i] !== 'about:blank') {
+        await pages[i].goto(urls[i], { waitUntil: 'domcontentloaded' });
+      }
+    }
+    session.page = pages[activeIndex] ?? session.page;
+    session.unclaimedTabs = [];
+  }
+
+  /**
+   * Serialize every session for the daemon's persistence manifest: live ones (storage state, tabs,
+   * launch options, metadata) plus dormant ones not restored yet. A session that fails to
+   * serialize (browser mid-teardown) is skipped.
+   */
+  async snapshot(): Promise<PersistedSession[]> {
+    const result: PersistedSession[] = [];
+    for (const session of Array.from(this.sessions.values())) {
+      try {
+        result.push(await this.persist(session));
+      } catch {
+        // Skip it; the next snapshot tries again
+      }
+    }
+    result.push(...this.dormant.values());
+    return result;
+  }
+
+  private async persist(session: BrowserSession): Promise<PersistedSession> {
+    const pages = session.type === 'tauri' || session.dead ? [] : session.context.pages();
+    let storageState: object | undefined;
+    if (session.dead) {
+      storageState = session.checkpoint?.storageState;
+    } else if (session.type !== 'tauri' && !keepsOwnStorage(session)) {
+      storageState = await session.context.storageState();
+    }
+    const tabs = session.dead ? (session.checkpoint?.url ? [session.checkpoint.url] : []) : pages.map((p) => p.url());
+    return {
+      name: session.name,
+      type: session.type,
+      headless: session.headless,
+      launch: session.launch,
+      createdAt: session.createdAt.toISOString(),
+      savedAt: new Date().toISOString(),
+      ...(storageState ? { storageState } : {}),
+      tabs,
+      activeTab: Math.max(0, pages.indexOf(session.page)),
+      labels: session.labels,
+      description: session.description,
+      owner: session.owner,
+      ttlMs: session.ttlMs,
+      idleTimeoutMs: session.idleTimeoutMs,
+      autoRecover: session.autoRecover,
+      initScripts: session.initScripts,
+      nextInitScriptId: session.nextInitScriptId,
+      networkConditions: session.networkConditions,
+      routes: session.routes,
+      nextRouteId: session.nextRouteId,
+      harReplays: session.harReplays,
+    };
+  }
+
+  /** Register sessions saved by a previous daemon run; names already live here are ignored. */
+  addDormant(saved: PersistedSession[]): void {
+    for (const entry of saved) {
+      if (!this.sessions.has(entry.name)) this.dormant.set(entry.name, entry);
+    }
+  }
+
+  /**
+   * Relaunch a saved session from its recorded type and launch options, then restore its storage
+   * state, tabs, init scripts, lease and metadata. Electron/tauri apps open their own content, so
+   * only browser sessions get their tabs back.
+   */
+  private async rehydrate(saved: PersistedSession): Promise<BrowserSession> {
+    this.dormant.delete(saved.name);
+    let session: BrowserSession;
+    try {
+      session = await this.createWithStorage(saved.name, saved.type, saved.headless, saved.storageState, saved.launch);
+    } catch (e) {
+      throw new Error(`Session '${saved.name}' was saved by a previous daemon run but could not be restored: ${(e as Error).message}`);
+    }
+    session.createdAt = new Date(saved.createdAt);
+    session.ttlMs = saved.ttlMs;
+    session.idleTimeoutMs = saved.idleTimeoutMs;
+    session.autoRecover = saved.autoRecover;
+    session.labels = saved.labels;
+    session.description = saved.description;
+    session.owner = saved.owner;
+    this.scheduleLeaseCheck();
+    try {
+      await this.replayInitScripts(session, saved);
+      await this.replayRoutes(session, saved);
+      if (session.type !== 'electron' && session.type !== 'tauri') {
+        await this.openTabs(session, saved.tabs, saved.activeTab);
+      }
+      if (saved.networkConditions) await this.applyNetworkConditions(session, saved.networkConditions);
+    } catch (e) {
+      await this.destroy(saved.name).catch(() => {});
+      throw new Error(`Session '${saved.name}' was saved by a previous daemon run but could not be restored: ${(e as Error).message}`);
+    }
+    const tabs = session.type === 'tauri' ? 0 : session.context.pages().length;
+    session.recoveryNotice = `Session '${saved.name}' was restored from a previous daemon run (relaunched ${saved.type}` +
+      (session.type === 'electron' || session.type === 'tauri' ? ')' : `, ${tabs} tab${tabs === 1 ? '' : 's'})`);
     return session;
   }
 
+  /**
+   * Join (or start) the shared browser for `key`. The session is counted against the entry
+   * synchronously, before any await, so a concurrent release can't close a browser being joined.
+   */
+  private async acquirePooled(key: string, name: string, launch: () => Promise<Browser>): Promise<Browser> {
+    let entry = this.pool.get(key);
+    if (!entry) {
+      const created: PoolEntry = {
+        browser: launch().then((browser) => {
+          // A crashed shared browser leaves the pool so the next session launches a fresh one.
+          browser.on('disconnected', () => {
+            if (this.pool.get(key) === created) this.pool.delete(key);
+          });
+          return browser;
+        }),
+        sessions: new Set(),
+      };
+      created.browser.catch(() => {
+        if (this.pool.get(key) === created) this.pool.delete(key);
+      });
+      this.pool.set(key, created);
+      entry = created;
+    }
+    entry.sessions.add(name);
+    try {
+      return await entry.browser;
+    } catch (e) {
+      entry.sessions.delete(name);
+      throw e;
+    }
+  }
+
+  /** Drop a session's hold on a shared browser; closes the browser when it was the last one. */
+  private async releasePooled(key: string, name: string): Promise<void> {
+    const entry = this.pool.get(key);
+    if (!entry) return;
+    entry.sessions.delete(name);
+    if (entry.sessions.size > 0) return;
+    this.pool.delete(key);
+    const browser = await entry.browser.catch(() => undefined);
+    await browser?.close();
+  }
+
   get(name: string): BrowserSession | undefined {
     return this.sessions.get(name);
   }
 
+  /** Look up a session for an action. Every action goes through here, so it renews the lease. */
   getOrThrow(name: string): BrowserSession {
     const session = this.sessions.get(name);
     if (!session) {
       throw new Error(`Session '${name}' not found. Create it first with session_create.`);
     }
+    session.lastActivityAt = new Date();
     return session;
   }
 
+  /**
+   * Look up a session for an action, like getOrThrow, but deal with a dead one: relaunch it when
+   * it was created with autoRecover, otherwise fail with the reason instead of a raw Playwright
+   * error. Concurrent callers share one recovery.
+   */
+  async acquire(name: string): Promise<BrowserSession> {
+    const pending = this.recoveries.get(name);
+    if (pending) return pending;
+    const saved = this.dormant.get(name);
+    if (saved && !this.sessions.has(name)) {
+      const restore = this.rehydrate(saved).finally(() => this.recoveries.delete(name));
+      this.recoveries.set(name, restore);
+      return restore;
+    }
+    const session = this.getOrThrow(name);
+    if (!session.dead) {
+      void this.checkpoint(session);
+      return session;
+    }
+    if (!session.autoRecover) {
+      throw new Error(`Session '${name}' is dead (${session.dead}). Destroy it and create it again, or create it with autoRecover.`);
+    }
+    const recovery = this.recover(session).finally(() => this.recoveries.delete(name));
+    this.recoveries.set(name, recovery);
+    return recovery;
+  }
+
+  /** Opt a session into auto-recovery; takes a first checkpoint right away. */
+  async setAutoRecover(name: string, enabled: boolean): Promise<void> {
+    const session = this.getOrThrow(name);
+    session.autoRecover = enabled;
+    if (enabled) await this.checkpoint(session);
+  }
+
+  /** Hand out (once) the note left by an auto-recovery, for the next action's result. */
+  takeRecoveryNotice(name: string): string | undefined {
+    const session = this.sessions.get(name);
+    const notice = session?.recoveryNotice;
+    if (session) session.recoveryNotice = undefined;
+    return notice;
+  }
+
+  /**
+   * Give a session a lease: `ttlMs` caps its total lifetime, `idleTimeoutMs` expires it after that
+   * long without an action. Expired sessions are destroyed in the background and reported to
+   * onExpire listeners.
+   */
+  setLease(name: string, lease: SessionLease): void {
+    const session = this.getOrThrow(name);
+    session.ttlMs = lease.ttlMs;
+    session.idleTimeoutMs = lease.idleTimeoutMs;
+    this.scheduleLeaseCheck();
+  }
+
+  /**
+   * Register a script that runs before any page script on every navigation in the session's
+   * context (including new tabs). It does not run in documents that are already loaded.
+   */
+  async addInitScript(name: string, source: string): Promise<InitScript> {
+    const session = await this.acquire(name);
+    await session.context.addInitScript({ content: source });
+    const script: InitScript = {
+      id: `i${session.nextInitScriptId++}`,
+      source,
+      addedAt: new Date().toISOString(),
+    };
+    session.initScripts.push(script);
+    return script;
+  }
+
+  /**
+   * Drop a script from the session's registry. Playwright has no way to unregister a script from
+   * a live context, so it keeps running there; forks and recoveries no longer get it.
+   */
+  removeInitScript(name: string, id: string): InitScript {
+    const session = this.getOrThrow(name);
+    const index = session.initScripts.findIndex((s) => s.id === id);
+    if (index < 0) {
+      throw new Error(`Init script '${id}' not found in session '${name}'`);
+    }
+    return session.initScripts.splice(index, 1)[0];
+  }
+
+  /** Re-register a source session's init scripts on a fresh context, keeping their ids. */
+  private async replayInitScripts(session: BrowserSession, source: Pick<BrowserSession, 'initScripts' | 'nextInitScriptId'>): Promise<void> {
+    for (const script of source.initScripts) {
+      await session.context.addInitScript({ content: script.source });
+    }
+    session.initScripts = source.initScripts.map((s) => ({ ...s }));
+    session.nextInitScriptId = source.nextInitScriptId;
+  }
+
+  /**
+   * Intercept requests matching the spec in every tab of the session. The newest matching route
+   * handles a request first; a continue route (or a method mismatch) passes it on to older ones.
+   */
+  async addRoute(name: string, spec: RouteSpec): Promise<RouteRule> {
+    const session = await this.acquire(name);
+    if (session.type === 'tauri') {
+      throw new Error('Routes are not supported for tauri sessions');
+    }
+    await validateRouteSpec(spec);
+    const rule: RouteRule = { ...spec, id: `r${session.nextRouteId++}`, hits: 0, addedAt: new Date().toISOString() };
+    await this.registerRoute(session, rule);
+    session.routes.push(rule);
+    await this.keepBlockFirst(session);
+    return rule;
+  }
+
+  /** Remove one route by id, or every route when id is omitted; returns the removed rules. */
+  async removeRoute(name: string, id?: string): Promise<RouteRule[]> {
+    const session = await this.acquire(name);
+    const removed = id === undefined ? session.routes : session.routes.filter((r) => r.id === id);
+    if (id !== undefined && removed.length === 0) {
+      throw new Error(`Route '${id}' not found in session '${name}'`);
+    }
+    for (const rule of removed) {
+      const handler = this.routeHandlers.get(rule);
+      if (handler) await session.context.unroute(routeMatcher(rule), handler);
+    }
+    session.routes = session.routes.filter((r) => !removed.includes(r));
+    return removed;
+  }
+
+  private async registerRoute(session: BrowserSession, rule: RouteRule): Promise<void> {
+    const handler = routeHandler(rule);
+    this.routeHandlers.set(rule, handler);
+    await session.context.route(routeMatcher(rule), handler);
+  }
+
+  /**
+   * Replace what the session blocks (nothing, when the spec blocks nothing). Recorded in the launch
+   * options, so a fork, recovery or restart blocks the same; counts carry on across changes.
+   */
+  async setBlock(name: string, spec: BlockSpec): Promise<void> {
+    const session = await this.acquire(name);
+    if (session.type === 'tauri') {
+      throw new Error('Blocking is not supported for tauri sessions');
+    }
+    validateBlockSpec(spec);
+    await this.applyBlock(session, spec);
+    if (session.type !== 'electron') {
+      session.launch = { ...(session.launch as BrowserLaunchOptions | undefined), blockResources: session.blocking };
+    }
+  }
+
+  /**
+   * Abort matching requests in every tab, replacing the session's previous blocking. The new routes
+   * go in before the old ones come out, so nothing slips through in between.
+   */
+  private async applyBlock(session: BrowserSession, spec: BlockSpec): Promise<void> {
+    const routes = blocksAnything(spec)
+      ? blockRoutes(spec, (request, reason) => {
+          this.blockedRequests.set(request, reason);
+          session.blockedCounts[reason] = (session.blockedCounts[reason] ?? 0) + 1;
+        })
+      : [];
+    for (const route of routes) await session.context.route(route.url, route.handler);
+    for (const route of this.blockHandlers.get(session) ?? []) await session.context.unroute(route.url, route.handler);
+    this.blockHandlers.set(session, routes);
+    session.blocking = routes.length ? spec : undefined;
+  }
+
+  /** Re-register blocking as the newest routes, so a route or HAR added since cannot let a blocked request through. */
+  private async keepBlockFirst(session: BrowserSession): Promise<void> {
+    if (session.blocking) await this.applyBlock(session, session.blocking);
+  }
+
+  /** Serve requests from a recorded HAR; later routes still take precedence over it. */
+  async addHarReplay(name: string, replay: HarReplay): Promise<void> {
+    const session = await this.acquire(name);
+    if (session.type === 'tauri') {
+      throw new Error('HAR replay is not supported for tauri sessions');
+    }
+    await routeFromHar(session.context, replay);
+    session.harReplays.push(replay);
+    await this.keepBlockFirst(session);
+  }
+
+  /**
+   * Start recording the session's traffic (every tab) to a HAR file, written when the recording
+   * stops or the session is destroyed.
+   */
+  async startHar(name: string, options: HarRecordOptions): Promise<HarRecorder> {
+    const session = await this.acquire(name);
+    if (session.type === 'tauri') {
+      throw new Error('HAR recording is not supported for tauri sessions');
+    }
+    if (session.har) {
+      throw new Error(`Session '${name}' is already recording a HAR to ${session.har.path}`);
+    }
+    if (!path.isAbsolute(options.path)) {
+      throw new Error(`HAR path must be absolute, got: ${options.path}`);
+    }
+    session.har = new HarRecorder(session.context, options, (request) => {
+      try {
+        return session.tabIds.get(request.frame().page());
+      } catch {
+        return undefined;
+      }
+    });
+    return session.har;
+  }
+
+  /** Stop the HAR recording and write the file; returns its path and entry count. */
+  async stopHar(name: string): Promise<{ path: string; entries: number }> {
+    const session = await this.acquire(name);
+    const har = session.har;
+    if (!har) {
+      throw new Error(`Session '${name}' is not recording a HAR`);
+    }
+    session.har = undefined;
+    return { path: har.path, entries: await har.stop() };
+  }
+
+  /**
+   * Start listening on every tab for the first request or response matching the spec, and return
+   * a wait id. Arming before the action that triggers it (a click, a submit) means a fast
+   * response can't slip by before anyone is waiting; collect it with awaitNetworkWait.
+   */
+  async armNetworkWait(name: string, spec: NetworkWaitSpec): Promise<string> {
+    const session = await this.acquire(name);
+    if (session.type === 'tauri') {
+      throw new Error('Network waits are not supported for tauri sessions');
+    }
+    if (session.networkWaits.size >= MAX_NETWORK_WAITS) {
+      throw new Error(`Session '${name}' already has ${MAX_NETWORK_WAITS} armed network waits; collect some first`);
+    }
+    let url: RegExp | undefined;
+    if (spec.url !== undefined) {
+      try {
+        url = spec.regex ? new RegExp(spec.url) : globToRegExp(spec.url);
+      } catch (e) {
+        throw new Error(`Invalid url regex '${spec.url}': ${(e as Error).message}`);
+      }
+    }
+    const method = spec.method?.toUpperCase();
+    const matches = (request: Request) => (!url || url.test(request.url())) && (!method || request.method() === method);
+
+    const context = session.context;
+    let settle!: (hit: Request | Response) => void;
+    const matched = new Promise<Request | Response>((resolve) => (settle = resolve));
+    const onRequest = (request: Request) => {
+      if (!matches(request)) return;
+      dispose();
+      settle(request);
+    };
+    const onResponse = (response: Response) => {
+      if (!matches(response.request()) || (spec.status !== undefined && response.status() !== spec.status)) return;
+      dispose();
+      settle(response);
+    };
+    const dispose = () => {
+      context.off('request', onRequest);
+      context.off('response', onResponse);
+    };
+    if (spec.kind === 'request') context.on('request', onRequest);
+    else context.on('response', onResponse);
+
+    const id = `w${session.nextWaitId++}`;
+    session.networkWaits.set(id, { spec, matched, dispose });
+    return id;
+  }
+
+  /** Wait up to timeoutMs for an armed wait's match. The wait is used up either way. */
+  async awaitNetworkWait(name: string, id: string, kind: NetworkWaitSpec['kind'], timeoutMs: number): Promise<Request | Response> {
+    const session = await this.acquire(name);
+    const wait = session.networkWaits.get(id);
+    if (!wait) {
+      throw new Error(`Network wait '${id}' not found in session '${name}' (each wait can be collected once)`);
+    }
+    if (wait.spec.kind !== kind) {
+      throw new Error(`Network wait '${id}' waits for a ${wait.spec.kind}; collect it with browser_wait_for_${wait.spec.kind}`);
+    }
+    let timer: NodeJS.Timeout | undefined;
+    try {
+      return await Promise.race([
+        wait.matched,
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms waiting for a ${kind}${wait.spec.url ? ` matching ${wait.spec.url}` : ''}`)), timeoutMs);
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+      wait.dispose();
+      session.networkWaits.delete(id);
+    }
+  }
+
+  /** Register a source session's routes on a fresh context, keeping their ids; hit counts restart. */
+  private async replayRoutes(session: BrowserSession, source: { routes?: RouteRule[]; nextRouteId?: number; harReplays?: HarReplay[] }): Promise<void> {
+    for (const replay of source.harReplays ?? []) {
+      await routeFromHar(session.context, replay);
+      session.harReplays.push(replay);
+    }
+    for (const rule of source.routes ?? []) {
+      const copy = { ...rule, hits: 0 };
+      await this.registerRoute(session, copy);
+      session.routes.push(copy);
+    }
+    session.nextRouteId = source.nextRouteId ?? 1;
+    await this.keepBlockFirst(session);
+  }
+
+  /**
+   * Replace the extra HTTP headers sent by every request in the session. Recorded in the launch
+   * options, so a fork or auto-recovery sends the same headers.
+   */
+  async setExtraHeaders(name: string, headers: Record<string, string>): Promise<void> {
+    const session = await this.acquire(name);
+    await session.context.setExtraHTTPHeaders(headers);
+    if (session.type !== 'electron' && !session.attachedTo) {
+      const launch = (session.launch ?? {}) as BrowserLaunchOptions;
+      session.launch = { ...launch, network: { ...launch.network, extraHTTPHeaders: headers } };
+    }
+  }
+
+  /**
+   * Set (or with undefined, reset) the session's network conditions. offline works on every
+   * engine; latency, throughput and CPU throttling go over CDP, so they need chromium (or
+   * electron). Returns the effective conditions, preset filled in.
+   */
+  async setNetworkConditions(name: string, conditions?: NetworkConditions): Promise<NetworkConditions | undefined> {
+    const session = await this.acquire(name);
+    await this.applyNetworkConditions(session, conditions);
+    return session.networkConditions;
+  }
+
+  private async applyNetworkConditions(session: BrowserSession, conditions?: NetworkConditions): Promise<void> {
+    const resolved = conditions && resolveNetworkConditions(conditions);
+    const cdp = session.type === 'chromium' || session.type === 'electron';
+    if (throttles(resolved) && !cdp) {
+      throw new Error(`Latency, throughput and CPU throttling need a chromium session (CDP); ${session.type} supports offline only`);
+    }
+    const previous = session.networkConditions;
+    session.networkConditions = resolved;
+    await session.context.setOffline(!!resolved?.offline);
+    if (cdp && (throttles(resolved) || throttles(previous))) {
+      for (const page of session.context.pages()) {
+        await this.throttle(session, page);
+      }
+    }
+  }
+
+  /**
+   * The CDP session for a page of a chromium (or electron) session, opened on first use and
+   * kept for the page's lifetime so emulation set through it stays in effect.
+   */
+  cdp(session: BrowserSession, page: Page = session.page): Promise<CDPSession> {
+    if (session.type !== 'chromium' && session.type !== 'electron') {
+      throw new Error(`This needs the Chrome DevTools Protocol, which ${session.type} sessions don't have; use chromium`);
+    }
+    let cdp = this.cdpSessions.get(page);
+    if (!cdp) {
+      cdp = session.context.newCDPSession(page).then(async (client) => {
+        await client.send('Network.enable');
+        return client;
+      });
+      this.cdpSessions.set(page, cdp);
+      cdp.catch(() => this.cdpSessions.delete(page));
+    }
+    return cdp;
+  }
+
+  /** Push the session's latency/throughput/CPU settings (or their defaults, after a reset) to one page. */
+  private async throttle(session: BrowserSession, page: Page): Promise<void> {
+    const c = session.networkConditions ?? {};
+    const bytesPerSecond = (kbps?: number) => (kbps === undefined ? -1 : (kbps * 1000) / 8);
+    const client = await this.cdp(session, page);
+    await client.send('Network.emulateNetworkConditions', {
+      offline: false, // offline goes through context.setOffline so every engine shares one path
+      latency: c.latencyMs ?? 0,
+      downloadThroughput: bytesPerSecond(c.downloadKbps),
+      uploadThroughput: bytesPerSecond(c.uploadKbps),
+    });
+    await client.send('Emulation.setCPUThrottlingRate', { rate: c.cpuThrottlingRate ?? 1 });
+  }
+
+  /**
+   * Grant permissions for one origin (or every origin). Grants accumulate and are recorded in the
+   * launch options, so a fork, recovery or restored session gets them too.
+   */
+  async grantPermissions(name: string, permissions: string[], origin?: string): Promise<PermissionGrant[]> {
+    const session = await this.acquire(name);
+    const launch = this.permissionLaunch(session);
+    await session.context.grantPermissions(permissions, origin ? { origin } : undefined);
+    const grants = (launch.permissions ?? []).map((g) => ({ ...g }));
+    const existing = grants.find((g) => g.origin === origin);
+    if (existing) {
+      existing.permissions = Array.from(new Set([...existing.permissions, ...permissions]));
+    } else {
+      grants.push(origin ? { permissions, origin } : { permissions });
+    }
+    session.launch = { ...launch, permissions: grants };
+    return grants;
+  }
+
+  /**
+   * Drop the grants for one origin, or every grant when origin is omitted. Playwright can only
+   * clear all permissions at once, so the remaining grants are applied again afterwards.
+   */
+  async clearPermissions(name: string, origin?: string): Promise<PermissionGrant[]> {
+    const session = await this.acquire(name);
+    const launch = this.permissionLaunch(session);
+    const remaining = origin === undefined ? [] : (launch.permissions ?? []).filter((g) => g.origin !== origin);
+    await session.context.clearPermissions();
+    await applyPermissions(session.context, remaining);
+    session.launch = { ...launch, permissions: remaining.length ? remaining : undefined };
+    return remaining;
+  }
+
+  /** Set (or with null, stop emulating) the session's geolocation; recorded like permissions. */
+  async setGeolocation(name: string, geolocation: Geolocation | null): Promise<void> {
+    const session = await this.acquire(name);
+    const launch = this.permissionLaunch(session);
+    await session.context.setGeolocation(geolocation);
+    session.launch = { ...launch, geolocation: geolocation ?? undefined };
+  }
+
+  private permissionLaunch(session: BrowserSession): BrowserLaunchOptions {
+    if (session.type === 'electron' || session.type === 'tauri') {
+      throw new Error(`Permissions and geolocation are not supported for ${session.type} sessions`);
+    }
+    return (session.launch ?? {}) as BrowserLaunchOptions;
+  }
+
+  /**
+   * Run an action on a session (none when name is not a string), keeping the idle lease from
+   * expiring while it runs and renewing it when it ends, so a long action is never reaped midway.
+   */
+  async busy<T>(name: unknown, fn: () => Promise<T>): Promise<T> {
+    if (typeof name !== 'string') return fn();
+    this.inFlight.set(name, (this.inFlight.get(name) ?? 0) + 1);
+    try {
+      return await fn();
+    } finally {
+      const left = (this.inFlight.get(name) ?? 1) - 1;
+      if (left > 0) this.inFlight.set(name, left);
+      else this.inFlight.delete(name);
+      const session = this.sessions.get(name);
+      if (session) session.lastActivityAt = new Date();
+    }
+  }
+
+  /** Attach labels/description/owner; labels merge into any existing ones. */
+  setMetadata(name: string, meta: SessionMetadata): void {
+    const session = this.getOrThrow(name);
+    if (meta.labels) session.labels = { ...session.labels, ...meta.labels };
+    if (meta.description !== undefined) session.description = meta.description;
+    if (meta.owner !== undefined) session.owner = meta.owner;
+  }
+
+  /** Renew a session's idle lease without acting on it; returns the remaining lease in ms, if any. */
+  touch(name: string): number | undefined {
+    return this.leaseRemaining(this.getOrThrow(name));
+  }
+
+  /** Subscribe to lease expiries (the daemon logs them and re-checks its own idle state). */
+  onExpire(listener: (name: string, reason: string) => void): void {
+    this.expireListeners.push(listener);
+  }
+
+  private leaseRemaining(session: BrowserSession): number | undefined {
+    const now = Date.now();
+    const remaining: number[] = [];
+    if (session.ttlMs !== undefined) remaining.push(session.createdAt.getTime() + session.ttlMs - now);
+    if (session.idleTimeoutMs !== undefined) remaining.push(session.lastActivityAt.getTime() + session.idleTimeoutMs - now);
+    return remaining.length > 0 ? Math.max(0, Math.min(...remaining)) : undefined;
+  }
+
+  /** Run the (unref'd) expiry sweep only while at least one session holds a lease. */
+  private scheduleLeaseCheck(): void {
+    const leased = Array.from(this.sessions.values()).some((s) => s.ttlMs !== undefined || s.idleTimeoutMs !== undefined);
+    if (leased && !this.leaseTimer) {
+      this.leaseTimer = setInterval(() => void this.reapExpired(), LEASE_CHECK_MS);
+      this.leaseTimer.unref();
+    } else if (!leased && this.leaseTimer) {
+      clearInterval(this.leaseTimer);
+      this.leaseTimer = null;
+    }
+  }
+
+  private async reapExpired(): Promise<void> {
+    const now = Date.now();
+    for (const session of Array.from(this.sessions.values())) {
+      let reason: string | undefined;
+      if (session.ttlMs !== undefined && now - session.createdAt.getTime() >= session.ttlMs) {
+        reason = `ttl of ${session.ttlMs}ms reached`;
+      } else if (session.idleTimeoutMs !== undefined && !this.inFlight.has(session.name) && now - session.lastActivityAt.getTime() >= session.idleTimeoutMs) {
+        reason = `no activity for ${session.idleTimeoutMs}ms`;
+      }
+      if (!reason || this.sessions.get(session.name) !== session) continue;
+      await this.destroy(session.name).catch(() => {});
+      for (const listener of this.expireListeners) listener(session.name, reason);
+    }
+  }
+
   async destroy(name: string): Promise<void> {
     const session = this.sessions.get(name);
+    if (!session && this.dormant.delete(name)) return;
     if (!session) {
       throw new Error(`Session '${name}' not found`);
     }
 
     this.sessions.delete(name);
+    this.scheduleLeaseCheck();
+    // Write out a HAR still recording while the context can still hand over response bodies
+    await session.har?.stop().catch(() => {});
     try {
       if (session.type === 'tauri' && session.tauri) {
         await session.tauri.close();
@@ -173,6 +1505,18 @@ class SessionManager {
         // Closing the ElectronApplication tears down its context+window; calling
         // context.close() on an Electron context is redundant/erroneous, so skip it.
         await (session.browser as ElectronApplication).close();
+      } else if (session.poolKey) {
+        // Pooled: close only this session's context; the shared browser goes with its last user.
+        await session.context.close().catch(() => {});
+        await this.releasePooled(session.poolKey, session.name);
+      } else if (session.attachedTo) {
+        // Attached: disconnect only. Browser.close() on a connected browser drops the contexts
+        // we created and leaves the remote process (and its own tabs) running.
+        await (session.browser as Browser).close();
+      } else if (session.browser === session.context) {
+        // Persistent profile: the context is the browser — closing it shuts the process down
+        // and flushes the profile to disk.
+        await session.context.close();
       } else {
         await session.context.close();
         if ('close' in session.browser) {
@@ -184,22 +1528,121 @@ class SessionManager {
     }
   }
 
-  list(): SessionInfo[] {
+  list(filter: SessionFilter = {}): SessionInfo[] {
     const result: SessionInfo[] = [];
     for (const session of this.sessions.values()) {
+      const url = session.type === 'tauri'
+        ? String(session.tauri?.hello.href ?? "")
+        : session.page.url();
+      const expiresInMs = this.leaseRemaining(session);
       result.push({
         name: session.name,
         type: session.type,
-        url: session.type === 'tauri'
-          ? String(session.tauri?.hello.href ?? "")
-          : session.page.url(),
+        url,
         createdAt: session.createdAt.toISOString(),
+        ...(session.userDataDir ? { userDataDir: session.userDataDir } : {}),
+        ...(session.attachedTo ? { attachedTo: session.attachedTo } : {}),
+        ...(session.poolKey ? { pool: session.poolKey, sharedWith: this.sharedWith(session) } : {}),
+        ...(session.type === 'tauri' ? {} : { emulation: this.effectiveEmulation(session) }),
+        ...(expiresInMs !== undefined ? { expiresInMs } : {}),
+        status: session.dead ? 'dead' : 'alive',
+        ...(session.dead ? { deadReason: session.dead } : {}),
+        ...(session.autoRecover ? { autoRecover: true } : {}),
+        ...(session.labels ? { labels: session.labels } : {}),
+        ...(session.description ? { description: session.description } : {}),
+        ...(session.owner ? { owner: session.owner } : {}),
+        ...(this.proxyOf(session) ? { proxy: this.proxyOf(session) } : {}),
+        ...(this.extensionsOf(session) ? { extensions: this.extensionsOf(session) } : {}),
+        ...this.permissionsOf(session),
+        ...(session.networkConditions ? { networkConditions: session.networkConditions } : {}),
+        ...(session.har ? { harRecording: session.har.path } : {}),
+        tabs: session.type === 'tauri' ? 1 : session.context.pages().length,
+        consoleCount: session.consoleMessages.length,
+        networkCount: session.networkRequests.length,
+        lastActivityAt: session.lastActivityAt.toISOString(),
       });
     }
-    return result;
+    for (const saved of this.dormant.values()) {
+      result.push(this.dormantInfo(saved));
+    }
+    const now = Date.now();
+    return result.filter((info) => matchesFilter(info, filter, now));
+  }
+
+  private proxyOf(session: BrowserSession): string | undefined {
+    return session.type === 'electron' || session.type === 'tauri' ? undefined : (session.launch as BrowserLaunchOptions | undefined)?.network?.proxy?.server;
+  }
+
+  private permissionsOf(session: BrowserSession): Pick<SessionInfo, 'permissions' | 'geolocation'> {
+    if (session.type === 'electron' || session.type === 'tauri') return {};
+    const { permissions, geolocation } = (session.launch ?? {}) as BrowserLaunchOptions;
+    return { ...(permissions?.length ? { permissions } : {}), ...(geolocation ? { geolocation } : {}) };
+  }
+
+  private extensionsOf(session: BrowserSession): string[] | undefined {
+    return session.type === 'chromium' ? (session.launch as BrowserLaunchOptions | undefined)?.extensions : undefined;
+  }
+
+  /**
+   * Extensions loaded into a chromium session: ids (derived from their paths), manifest details
+   * and the service-worker / background-page targets currently running for each.
+   */
+  async listExtensions(name: string): Promise<ExtensionInfo[]> {
+    const session = await this.acquire(name);
+    const dirs = this.extensionsOf(session);
+    if (!dirs?.length) {
+      throw new Error(`Session '${name}' has no extensions loaded (create it with extensions)`);
+    }
+    const workers = session.context.serviceWorkers().map((w) => w.url());
+    const backgroundPages = session.context.backgroundPages().map((p) => p.url());
+    return Promise.all(dirs.map(async (dir) => {
+      const id = extensionId(dir);
+      const manifest = await readExtensionManifest(dir);
+      const origin = `chrome-extension://${id}/`;
+      const serviceWorker = workers.find((u) => u.startsWith(origin));
+      const backgroundPage = backgroundPages.find((u) => u.startsWith(origin));
+      return {
+        id,
+        path: dir,
+        ...manifest,
+        ...(serviceWorker ? { serviceWorker } : {}),
+        ...(backgroundPage ? { backgroundPage } : {}),
+      };
+    }));
+  }
+
+  /** A dormant (saved, not yet restored) session as session_list reports it. */
+  private dormantInfo(saved: PersistedSession): SessionInfo {
+    return {
+      name: saved.name,
+      type: saved.type,
+      url: saved.tabs[saved.activeTab] ?? '',
+      createdAt: saved.createdAt,
+      status: 'dormant',
+      ...(saved.labels ? { labels: saved.labels } : {}),
+      ...(saved.description ? { description: saved.description } : {}),
+      ...(saved.owner ? { owner: saved.owner } : {}),
+      tabs: saved.tabs.length,
+      consoleCount: 0,
+      networkCount: 0,
+      lastActivityAt: saved.savedAt,
+    };
+  }
+
+  /** Other live sessions holding a context in the same shared browser. */
+  private sharedWith(session: BrowserSession): string[] {
+    const entry = session.poolKey ? this.pool.get(session.poolKey) : undefined;
+    return entry ? Array.from(entry.sessions).filter((n) => n !== session.name && this.sessions.has(n)) : [];
+  }
+
+  /** Creation-time emulation plus the live viewport (browser_resize changes it after creation). */
+  private effectiveEmulation(session: BrowserSession): EmulationOptions {
+    const viewport = session.page.viewportSize() ?? undefined;
+    return { ...session.emulation, ...(viewport ? { viewport } : {}) };
   }
 
   async destroyAll(): Promise<void> {
+    this.dormant.clear();
     const names = Array.from(this.sessions.keys());
     for (const name of names) {
       try {
@@ -208,6 +1651,13 @@ class SessionManager {
         // Ignore errors during cleanup
       }
     }
+    // Every pooled session released its hold above; close any shared browser still left over
+    // (e.g. one whose last session failed mid-create).
+    const leftovers = Array.from(this.pool.values());
+    this.pool.clear();
+    for (const entry of leftovers) {
+      await entry.browser.then((b) => b.close()).catch(() => {});
+    }
   }
 }
 
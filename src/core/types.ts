@@ -1,5 +1,6 @@
-import type { Browser, BrowserContext, Page, ElectronApplication, Download } from 'playwright';
+import type { Browser, BrowserContext, Page, ElectronApplication, Download, Request, Response } from 'playwright';
 import type { TauriLaunchOptions, TauriSession } from './tauri.js';
+import type { HarRecorder } from './har.js';
 
 export type BrowserType = 'chromium' | 'firefox' | 'webkit' | 'camoufox' | 'electron' | 'tauri';
 
@@ -20,19 +21,216 @@ export interface ElectronLaunchOptions {
   env?: Record<string, string>;
 }
 
+/**
+ * Context emulation for the Playwright browser types. `device` names a preset from Playwright's
+ * `devices` registry (e.g. "iPhone 13"); explicit fields are applied on top of it.
+ */
+export interface EmulationOptions {
+  device?: string;
+  viewport?: { width: number; height: number };
+  deviceScaleFactor?: number;
+  isMobile?: boolean;
+  hasTouch?: boolean;
+  userAgent?: string;
+  locale?: string;
+  timezoneId?: string;
+  colorScheme?: 'light' | 'dark' | 'no-preference';
+  reducedMotion?: 'reduce' | 'no-preference';
+}
+
+/** How the session's context reaches the network: proxy, auth and headers. */
+export interface ContextNetworkOptions {
+  proxy?: { server: string; bypass?: string; username?: string; password?: string };
+  /** HTTP basic/digest auth credentials, optionally scoped to one origin. */
+  httpCredentials?: { username: string; password: string; origin?: string };
+  extraHTTPHeaders?: Record<string, string>;
+  ignoreHTTPSErrors?: boolean;
+}
+
+/**
+ * Emulated network/CPU conditions. offline works on every engine; latency, throughput and CPU
+ * throttling are applied over CDP and need chromium.
+ */
+export interface NetworkConditions {
+  /** Named preset the other fields were filled from: slow-3g, fast-3g or offline. */
+  preset?: string;
+  offline?: boolean;
+  /** Added round-trip latency in ms. */
+  latencyMs?: number;
+  /** Throughput caps in kilobits per second. */
+  downloadKbps?: number;
+  uploadKbps?: number;
+  /** CPU slowdown factor, e.g. 4 for 4x slower. */
+  cpuThrottlingRate?: number;
+}
+
+/** Permissions granted to a session's context, for one origin or (origin omitted) every origin. */
+export interface PermissionGrant {
+  /** Playwright permission names: geolocation, notifications, clipboard-read, camera, … */
+  permissions: string[];
+  origin?: string;
+}
+
+export interface Geolocation {
+  latitude: number;
+  longitude: number;
+  accuracy?: number;
+}
+
+/** Launch options for the Playwright browser types (chromium/firefox/webkit/camoufox). */
+export interface BrowserLaunchOptions {
+  /**
+   * Absolute path to a profile directory. When set, the session launches a persistent context
+   * (`launchPersistentContext`) so IndexedDB, service workers, cache and extension state survive
+   * across sessions and daemon restarts. The context IS the browser in this mode.
+   */
+  userDataDir?: string;
+  /**
+   * Attach to an already-running chromium over the DevTools protocol (`connectOverCDP`), e.g.
+   * `http://localhost:9222`. The session drives the browser's existing context and page, and
+   * destroying it disconnects instead of killing the process.
+   */
+  cdpUrl?: string;
+  /** Attach to a Playwright browser server (`browserType.connect`), e.g. one started by a test harness. */
+  wsEndpoint?: string;
+  /** Context emulation (viewport, locale, timezone, device preset, …). Not applicable when attaching. */
+  emulation?: EmulationOptions;
+  /** Proxy, HTTP credentials, extra headers and TLS error handling. Not applicable when attaching. */
+  network?: ContextNetworkOptions;
+  /**
+   * Share one browser process per (type, headless) pair with other pooled sessions; this session
+   * gets its own isolated BrowserContext. Not applicable with userDataDir or when attaching.
+   */
+  pooled?: boolean;
+  /**
+   * chromium only: absolute paths of unpacked extension directories to load. Runs the session in
+   * a persistent context (a throwaway profile unless userDataDir is set). Not applicable with
+   * pooled or when attaching.
+   */
+  extensions?: string[];
+  /** Permission grants applied at launch; browser_permissions keeps this list current. */
+  permissions?: PermissionGrant[];
+  /** Position reported to pages allowed to read geolocation; browser_set_geolocation keeps it current. */
+  geolocation?: Geolocation;
+  /** HAR file (absolute path) to answer requests from, as browser_route_from_har does. */
+  replayHar?: string;
+  /**
+   * Wrap the page's WebSocket and EventSource so browser_websockets also gets SSE messages and
+   * WebSocket close codes (frames are logged either way). Pages can see the wrappers, so this is
+   * opt-in, and not available for camoufox or attached sessions.
+   */
+  captureRealtime?: boolean;
+  /** Requests aborted before they leave the browser; browser_block keeps this current. */
+  blockResources?: BlockSpec;
+}
+
 export type { TauriLaunchOptions };
 
+/** An extension loaded into a session, as browser_extensions reports it. */
+export interface ExtensionInfo {
+  id: string;
+  /** Unpacked extension directory it was loaded from. */
+  path: string;
+  name: string;
+  version: string;
+  manifestVersion: number;
+  /** chrome-extension:// URL of the running MV3 service worker, if it is up. */
+  serviceWorker?: string;
+  /** chrome-extension:// URL of the MV2 background page, if it has one. */
+  backgroundPage?: string;
+  /** Popup path from the manifest (action.default_popup / browser_action.default_popup). */
+  popup?: string;
+  /** Options page path from the manifest (options_ui.page / options_page). */
+  options?: string;
+}
+
 export interface ConsoleMessage {
+  /** Increases by one per message in the session; pass the last one seen as afterSeq. */
+  seq: number;
   type: string;
   text: string;
   timestamp: number;
+  /** Stable id of the tab (page) it came from, e.g. t2. */
+  tabId: string;
+  /** URL of that tab when the entry was recorded. */
+  pageUrl: string;
+}
+
+/**
+ * Playwright's request.timing(): startTime is epoch ms, every other mark is ms after it, -1 when
+ * the phase did not happen (e.g. a reused connection has no DNS or connect).
+ */
+export interface NetworkTiming {
+  startTime: number;
+  domainLookupStart: number;
+  domainLookupEnd: number;
+  connectStart: number;
+  secureConnectionStart: number;
+  connectEnd: number;
+  requestStart: number;
+  responseStart: number;
+  responseEnd: number;
 }
 
 export interface NetworkRequest {
+  /** Unique per session (n1, n2, …); browser_network_request takes it. */
+  id: string;
+  /** The number in the id; pass the last one seen as afterSeq. */
+  seq: number;
   url: string;
   method: string;
+  /** document, script, xhr, fetch, image, … */
+  resourceType: string;
   status?: number;
+  statusText?: string;
+  timestamp: number;
+  tabId: string;
+  pageUrl: string;
+  requestHeaders: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  /** Request body, cut to 64 KB (postDataTruncated says so). */
+  postData?: string;
+  postDataTruncated?: boolean;
+  /** Earlier URLs of a redirect chain, oldest first, and the id of the hop just before this one. */
+  redirectChain?: string[];
+  redirectedFrom?: string;
+  /** Set once the request finished or failed. */
+  timing?: NetworkTiming;
+  durationMs?: number;
+  /** Network error text of a failed request, e.g. net::ERR_CONNECTION_REFUSED. */
+  failure?: string;
+  /** Set when browser_block stopped the request: the resource type, `tracker` or `url`. */
+  blocked?: string;
+  /** Held so browser_network_request can read the body later; never serialized. */
+  response?: Response;
+}
+
+/** One WebSocket or EventSource (SSE) event in the session's realtime log. */
+export interface RealtimeEvent {
+  /** Increases by one per event in the session; pass the last one seen as afterSeq. */
+  seq: number;
+  /** ws1, ws2, … for WebSockets; sse1, sse2, … for EventSource streams. */
+  connectionId: string;
+  protocol: 'websocket' | 'sse';
+  /** sent/received: a frame (or SSE message); close: the connection ended; error: it failed. */
+  type: 'open' | 'sent' | 'received' | 'close' | 'error';
+  url: string;
   timestamp: number;
+  tabId: string;
+  pageUrl: string;
+  /** sent/received: payload bytes, and the payload cut to 1 KB (binary frames as base64). */
+  size?: number;
+  payload?: string;
+  truncated?: boolean;
+  binary?: boolean;
+  /** SSE: event type (message unless the server names one) and last event id. */
+  event?: string;
+  lastEventId?: string;
+  /** WebSocket close: code and reason, as the page saw them. */
+  code?: number;
+  reason?: string;
+  /** error: what went wrong, when known. */
+  error?: string;
 }
 
 export interface DownloadRecord {
@@ -41,6 +239,8 @@ export interface DownloadRecord {
   url: string;
   createdAt: string;
   savedPath?: string;
+  tabId: string;
+  pageUrl: string;
   download: Download;
 }
 
@@ -64,10 +264,63 @@ export interface BrowserSession {
   context: BrowserContext;
   page: Page;
   tauri?: TauriSession;
+  /** Persistent profile dir, when launched via launchPersistentContext. */
+  userDataDir?: string;
+  /** Endpoint (cdpUrl or wsEndpoint) when attached to a browser this session did not launch. */
+  attachedTo?: string;
+  /** Resolved emulation the context was created with (device preset expanded). */
+  emulation?: EmulationOptions;
+  /** Shared-browser key (`${type}:headless|headed`) when created in pooled mode. */
+  poolKey?: string;
+  /** Launch shape the session was created with, so it can be forked/relaunched alike. */
+  headless: boolean;
+  launch?: BrowserLaunchOptions | ElectronLaunchOptions | TauriLaunchOptions;
+  /** Lease: destroy once this old (absolute, not renewed by activity). */
+  ttlMs?: number;
+  /** Lease: destroy after this long without an action on the session (renewed by every action). */
+  idleTimeoutMs?: number;
+  lastActivityAt: Date;
+  /** Why the session died (page crash, browser/app process gone); unset while it is alive. */
+  dead?: string;
+  /** Relaunch a dead session on its next action instead of failing it. */
+  autoRecover?: boolean;
+  /** Last known storage state and URL, refreshed while alive so a recovery can restore them. */
+  checkpoint?: SessionCheckpoint;
+  /** One-shot note for the next action's result after an auto-recovery. */
+  recoveryNotice?: string;
+  labels?: Record<string, string>;
+  description?: string;
+  /** Client that created the session (MCP client name, or the daemon client's BROWSERPLEX_CLIENT). */
+  owner?: string;
+  /** Scripts registered with context.addInitScript, in order; re-applied on fork and recovery. */
+  initScripts: InitScript[];
+  /** Next init script id number; ids are never reused, even after a removal. */
+  nextInitScriptId: number;
+  /** Routes registered with context.route, oldest first (the newest matching route handles a request). */
+  routes: RouteRule[];
+  nextRouteId: number;
+  /** HARs added with browser_route_from_har; re-applied on fork and recovery. */
+  harReplays: HarReplay[];
+  /** What browser_block (or blockResources at launch) is blocking, and how many requests so far, by reason. */
+  blocking?: BlockSpec;
+  blockedCounts: Record<string, number>;
+  /** Active browser_har_start recording. */
+  har?: HarRecorder;
+  /** Armed browser_wait_for_request/_response waits, by id, until collected. */
+  networkWaits: Map<string, NetworkWait>;
+  nextWaitId: number;
+  /** Conditions set with browser_network_conditions; re-applied to new tabs, forks and recoveries. */
+  networkConditions?: NetworkConditions;
   createdAt: Date;
   consoleMessages: ConsoleMessage[];
   networkRequests: NetworkRequest[];
+  /** WebSocket and EventSource traffic from every tab, oldest first. */
+  realtimeEvents: RealtimeEvent[];
   downloads: DownloadRecord[];
+  /** Stable tab id of every open page, assigned in the order pages opened. */
+  tabIds: Map<Page, string>;
+  /** Tabs opened after creation (popups, target=_blank) that wait_new has not handed out yet, oldest first. */
+  unclaimedTabs: Page[];
   /** Cached refs from last snapshot */
   refMap: RefMap;
 }
@@ -77,6 +330,224 @@ export interface SessionInfo {
   type: BrowserType;
   url: string;
   createdAt: string;
+  userDataDir?: string;
+  attachedTo?: string;
+  /** Effective emulation: the creation-time options plus the page's current viewport. */
+  emulation?: EmulationOptions;
+  /** Shared-browser key for pooled sessions; sessions with the same key share one process. */
+  pool?: string;
+  /** Other sessions sharing this session's browser process (pooled mode only). */
+  sharedWith?: string[];
+  /** Remaining lease time in ms when the session has a ttlMs/idleTimeoutMs. */
+  expiresInMs?: number;
+  /** 'dormant': saved by a previous daemon run, restored on first use. */
+  status: 'alive' | 'dead' | 'dormant';
+  /** Why the session died, when status is 'dead'. */
+  deadReason?: string;
+  autoRecover?: boolean;
+  labels?: Record<string, string>;
+  description?: string;
+  owner?: string;
+  /** Proxy server the session routes through (credentials are not reported). */
+  proxy?: string;
+  /** Unpacked extension directories loaded into the session (chromium). */
+  extensions?: string[];
+  permissions?: PermissionGrant[];
+  geolocation?: Geolocation;
+  networkConditions?: NetworkConditions;
+  /** Where the active HAR recording will be written. */
+  harRecording?: string;
+  /** Open pages (tabs) in the session's context. */
+  tabs: number;
+  /** Entries currently held in the console / network ring buffers. */
+  consoleCount: number;
+  networkCount: number;
+  lastActivityAt: string;
+}
+
+export interface SessionMetadata {
+  labels?: Record<string, string>;
+  description?: string;
+  owner?: string;
+}
+
+/** What browser_wait_for_request / _response match; every given criterion must hold. */
+export interface NetworkWaitSpec {
+  kind: 'request' | 'response';
+  /** URL glob, or a regular expression source when `regex` is set. */
+  url?: string;
+  regex?: boolean;
+  method?: string;
+  /** response only: the status it must have; other responses keep the wait going. */
+  status?: number;
+}
+
+/** A network wait armed on a session, settled by the first matching request or response. */
+export interface NetworkWait {
+  spec: NetworkWaitSpec;
+  matched: Promise<Request | Response>;
+  /** Stop listening for matches. */
+  dispose: () => void;
+}
+
+/** Filters shared by the console and network logs; every given one must match. */
+export interface LogFilter {
+  /** Only entries from this tab id, e.g. t2. */
+  tab?: string;
+  /** Only entries with a higher seq: read what is new since the last call without clearing. */
+  afterSeq?: number;
+  /** Only entries recorded at or after this time (epoch ms). */
+  since?: number;
+  /** Regular expression tested against the message text (console), request URL (network) or payload (realtime). */
+  pattern?: string;
+  /** URL glob matched against the page URL (console), request URL (network) or connection URL (realtime). */
+  url?: string;
+}
+
+export interface ConsoleFilter extends LogFilter {
+  /** Message types to keep: log, info, warning, error, debug, … */
+  levels?: string[];
+}
+
+export interface NetworkFilter extends LogFilter {
+  method?: string;
+  /** Inclusive status range; requests without a response never match one. */
+  statusMin?: number;
+  statusMax?: number;
+  /** document, script, stylesheet, image, xhr, fetch, … */
+  resourceTypes?: string[];
+}
+
+export interface RealtimeFilter extends LogFilter {
+  /** Only this connection, e.g. ws2. */
+  connectionId?: string;
+  protocol?: 'websocket' | 'sse';
+  /** Only these event types, e.g. sent and received for frames alone. */
+  types?: RealtimeEvent['type'][];
+}
+
+/** session_list filter; every given criterion must match. */
+export interface SessionFilter {
+  /** Every key must be present with this exact value. */
+  labels?: Record<string, string>;
+  type?: BrowserType;
+  /** Substring of the session's current URL. */
+  url?: string;
+  olderThanMs?: number;
+  newerThanMs?: number;
+}
+
+/** Lease limits for a session; see SessionManager.setLease. */
+export interface SessionLease {
+  ttlMs?: number;
+  idleTimeoutMs?: number;
+}
+
+export interface InitScript {
+  /** Stable id (i1, i2, …) used to remove it. */
+  id: string;
+  source: string;
+  addedAt: string;
+}
+
+/** How a route answers the requests it matches. */
+export interface RouteSpec {
+  /** URL glob (e.g. `**\/api/users*`), or a regular expression source when `regex` is set. */
+  url: string;
+  regex?: boolean;
+  /** Only match this HTTP method (case-insensitive); other methods fall through to older routes. */
+  method?: string;
+  /** fulfill: answer with a mocked response; abort: fail the request; continue: send it on, optionally modified. */
+  action: 'fulfill' | 'abort' | 'continue';
+  /** fulfill: status (default 200), headers, and body inline or from a file (absolute path). */
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  bodyFile?: string;
+  /** abort: network error code, e.g. failed, timedout, connectionrefused (default failed). */
+  errorCode?: string;
+  /** continue: headers merged into the request's, and a replacement request body. */
+  setHeaders?: Record<string, string>;
+  postData?: string;
+  /** Wait this long before acting, whatever the action. */
+  delayMs?: number;
+}
+
+export interface RouteRule extends RouteSpec {
+  /** Stable id (r1, r2, …) used to remove it. */
+  id: string;
+  /** Requests this route has handled. */
+  hits: number;
+  addedAt: string;
+}
+
+/** Requests a session aborts before they leave the browser (blockResources / browser_block). */
+export interface BlockSpec {
+  /** Resource types to block, e.g. image, font, media, stylesheet. */
+  resourceTypes?: string[];
+  /** URL globs to block, e.g. `**\/ads/**`. */
+  urls?: string[];
+  /** Block the built-in list of common ad and analytics hosts. */
+  trackers?: boolean;
+}
+
+/** A HAR served with context.routeFromHAR. */
+export interface HarReplay {
+  /** Absolute path of the .har (or .zip) file. */
+  path: string;
+  /** Only serve requests whose URL matches this glob from the HAR. */
+  url?: string;
+  /** Requests missing from the HAR: abort them (default) or let them reach the network. */
+  notFound?: 'abort' | 'fallback';
+}
+
+/** A session as written to the daemon's persistence manifest — enough to relaunch it. */
+export interface PersistedSession {
+  name: string;
+  type: BrowserType;
+  headless: boolean;
+  launch?: BrowserLaunchOptions | ElectronLaunchOptions | TauriLaunchOptions;
+  createdAt: string;
+  savedAt: string;
+  /** Cookies/localStorage; omitted for profile-backed, attached, electron and tauri sessions. */
+  storageState?: object;
+  /** Open tab URLs in order, and which one was active. */
+  tabs: string[];
+  activeTab: number;
+  labels?: Record<string, string>;
+  description?: string;
+  owner?: string;
+  ttlMs?: number;
+  idleTimeoutMs?: number;
+  autoRecover?: boolean;
+  initScripts: InitScript[];
+  nextInitScriptId: number;
+  networkConditions?: NetworkConditions;
+  routes?: RouteRule[];
+  nextRouteId?: number;
+  harReplays?: HarReplay[];
+}
+
+export interface SessionCheckpoint {
+  storageState?: object;
+  url?: string;
+}
+
+/** Counters for the daemon's pre-warmed browser pool (see SessionManager.configureWarmPool). */
+export interface WarmPoolStats {
+  /** Target number of idle browsers kept ready. */
+  size: number;
+  type: BrowserType;
+  headless: boolean;
+  /** Idle browsers ready to be claimed right now. */
+  ready: number;
+  /** Browsers currently launching to top the pool up. */
+  launching: number;
+  /** session_create calls served by a warm browser. */
+  hits: number;
+  /** Compatible session_create calls that found the pool empty and launched cold. */
+  misses: number;
 }
 
 export interface StoredSession {
@@ -22,6 +22,8 @@ const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
 export interface DaemonClientOptions {
   /** Per-request timeout in ms. 0 disables (default: env BROWSERPLEX_TIMEOUT or 0). */
   requestTimeoutMs?: number;
+  /** Identity sent with every request (default: env BROWSERPLEX_CLIENT); owns the sessions it creates. */
+  client?: string;
 }
 
 /**
@@ -35,10 +37,12 @@ export class DaemonClient {
   private pending = new Map<number, { resolve: (r: DaemonResponse) => void; reject: (e: Error) => void; timer?: NodeJS.Timeout }>();
   private nextId = 1;
   private readonly requestTimeoutMs: number;
+  private readonly client: string | undefined;
 
   constructor(opts: DaemonClientOptions = {}) {
     this.requestTimeoutMs =
       opts.requestTimeoutMs ?? Number(process.env.BROWSERPLEX_TIMEOUT ?? 0) ?? 0;
+    this.client = opts.client ?? (process.env.BROWSERPLEX_CLIENT || undefined);
   }
 
   /**
@@ -158,7 +162,7 @@ export class DaemonClient {
   request(tool: string, args: Record<string, unknown> = {}): Promise<DaemonResponse> {
     if (!this.socket) throw new Error("not connected");
     const id = this.nextId++;
-    const req: DaemonRequest = { id, tool, args };
+    const req: DaemonRequest = { id, tool, args, ...(this.client ? { client: this.client } : {}) };
     return new Promise<DaemonResponse>((resolve, reject) => {
       const entry: { resolve: (r: DaemonResponse) => void; reject: (e: Error) => void; timer?: NodeJS.Timeout } = {
         resolve,
@@ -0,0 +1,36 @@
+import { promises as fs } from "node:fs";
+import type { PersistedSession } from "../core/types.js";
+import { MANIFEST_PATH } from "./protocol.js";
+
+/**
+ * The daemon's session manifest: every session's type, launch options, storage state, tabs and
+ * metadata, written on shutdown and periodically so a restarted daemon can bring them back.
+ */
+interface Manifest {
+  version: 1;
+  savedAt: string;
+  sessions: PersistedSession[];
+}
+
+let writeSeq = 0;
+
+/** Read the manifest; a missing or unreadable file means nothing to restore. */
+export async function readManifest(file: string = MANIFEST_PATH): Promise<PersistedSession[]> {
+  try {
+    const manifest = JSON.parse(await fs.readFile(file, "utf8")) as Manifest;
+    return manifest.version === 1 && Array.isArray(manifest.sessions) ? manifest.sessions : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Write the manifest atomically (temp file + rename) so a crash mid-write never leaves a torn
+ * file. Owner-only: it holds cookies and launch env.
+ */
+export async function writeManifest(sessions: PersistedSession[], file: string = MANIFEST_PATH): Promise<void> {
+  const manifest: Manifest = { version: 1, savedAt: new Date().toISOString(), sessions };
+  const tmp = `${file}.${process.pid}.${++writeSeq}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(manifest), { mode: 0o600 });
+  await fs.rename(tmp, file);
+}
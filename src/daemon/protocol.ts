@@ -10,6 +10,8 @@ export const BASE_DIR = process.env.BROWSERPLEX_DIR || path.join(os.homedir(), "
 export const SOCKET_PATH = path.join(BASE_DIR, "daemon.sock");
 export const PID_PATH = path.join(BASE_DIR, "daemon.pid");
 export const LOG_PATH = path.join(BASE_DIR, "daemon.log");
+/** Session persistence manifest (opt-in via BROWSERPLEX_PERSIST); holds cookies, so owner-only. */
+export const MANIFEST_PATH = path.join(BASE_DIR, "daemon-sessions.json");
 
 /** Restrictive perms — the daemon exposes full browser control. */
 export const SOCKET_MODE = 0o600;
@@ -21,6 +23,8 @@ export interface DaemonRequest {
   id: number;
   tool: string;
   args?: Record<string, unknown>;
+  /** Caller identity, recorded as the owner of sessions the request creates. */
+  client?: string;
 }
 
 export interface DaemonResponse {
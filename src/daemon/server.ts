@@ -3,6 +3,8 @@ import net from "node:net";
 import { promises as fs } from "node:fs";
 import { sessionManager } from "../core/sessions.js";
 import { actionDispatch } from "../core/dispatch.js";
+import { withRecoveryNotice } from "../core/actions.js";
+import { readManifest, writeManifest } from "./persistence.js";
 import {
   BASE_DIR,
   SOCKET_PATH,
@@ -30,15 +32,56 @@ function parseIdleMs(): number {
   return Number.isFinite(n) && n >= 0 ? n : 300_000;
 }
 const IDLE_MS = parseIdleMs();
+
+// Warm pool: number of idle headless chromium browsers kept pre-launched so session_create skips
+// the cold launch. Default 0 (disabled). Warm browsers are not sessions, so idle-exit still fires.
+function parseWarmPool(): number {
+  const n = Number(process.env.BROWSERPLEX_WARM_POOL ?? 0);
+  return Number.isInteger(n) && n > 0 ? n : 0;
+}
+const WARM_POOL = parseWarmPool();
+
+// Session persistence: opt-in with BROWSERPLEX_PERSIST=1. Sessions are written to MANIFEST_PATH on
+// shutdown and every BROWSERPLEX_PERSIST_INTERVAL_MS (default 30s, so a crash loses little), and a
+// restarted daemon restores each one the first time a client asks for it by name.
+const PERSIST = process.env.BROWSERPLEX_PERSIST === "1" || process.env.BROWSERPLEX_PERSIST === "true";
+function parsePersistIntervalMs(): number {
+  const n = Number(process.env.BROWSERPLEX_PERSIST_INTERVAL_MS ?? 30_000);
+  return Number.isFinite(n) && n > 0 ? n : 30_000;
+}
+const PERSIST_INTERVAL_MS = parsePersistIntervalMs();
 const startedAt = Date.now();
+/** Tools that create a session, so the request's `client` is recorded as its owner. */
+const SESSION_CREATING_TOOLS = new Set(["session_create", "session_fork", "storage_load"]);
 let serverRef: net.Server; // set in main() before bind so control/idle paths can reach it
 let inFlight = 0; // requests dispatched but not yet replied
 let openConnections = 0; // currently-connected clients
 let idleTimer: ReturnType<typeof setTimeout> | null = null;
 
-/** True only when nothing is holding the daemon: no sessions, no in-flight requests, no clients. */
+/**
+ * True only when nothing is holding the daemon: no live sessions, no in-flight requests, no
+ * clients. Dormant (saved, not yet restored) sessions don't count — they survive the exit anyway.
+ */
 function isIdle(): boolean {
-  return sessionManager.list().length === 0 && inFlight === 0 && openConnections === 0;
+  const live = sessionManager.list().filter((s) => s.status !== "dormant");
+  return live.length === 0 && inFlight === 0 && openConnections === 0;
+}
+
+/**
+ * Write the persistence manifest; failures are logged, never fatal. Writes are chained so the final
+ * one from shutdown lands last, and periodic writes stop once shutdown has started tearing down.
+ */
+let persisting: Promise<void> = Promise.resolve();
+function persistSessions(final = false): Promise<void> {
+  persisting = persisting.then(async () => {
+    if (shuttingDown && !final) return;
+    try {
+      await writeManifest(await sessionManager.snapshot());
+    } catch (e) {
+      log(`could not write session manifest: ${e instanceof Error ? e.message : String(e)}`);
+    }
+  });
+  return persisting;
 }
 
 /**
@@ -75,7 +118,8 @@ function asRequest(parsed: unknown): DaemonRequest {
   if (obj.args !== undefined && (typeof obj.args !== "object" || obj.args === null)) {
     throw new Error("request.args must be an object");
   }
-  return { id: obj.id, tool: obj.tool, args: (obj.args as Record<string, unknown>) ?? {} };
+  if (obj.client !== undefined && typeof obj.client !== "string") throw new Error("request.client must be a string");
+  return { id: obj.id, tool: obj.tool, args: (obj.args as Record<string, unknown>) ?? {}, client: obj.client as string | undefined };
 }
 
 /** Run one request and produce its response (never throws). */
@@ -94,7 +138,12 @@ async function handleRequest(line: string): Promise<DaemonResponse> {
       return {
         id,
         ok: true,
-        data: { pid: process.pid, sessions: sessionManager.list().map((s) => s.name), uptimeMs: Date.now() - startedAt },
+        data: {
+          pid: process.pid,
+          sessions: sessionManager.list().map((s) => s.name),
+          uptimeMs: Date.now() - startedAt,
+          warmPool: sessionManager.warmPoolStats() ?? null,
+        },
       };
     }
     if (req.tool === "__daemon_stop") {
@@ -106,7 +155,9 @@ async function handleRequest(line: string): Promise<DaemonResponse> {
     if (!action) {
       return { id, ok: false, error: `Unknown tool: ${req.tool}` };
     }
-    const result = await action(req.args ?? {});
+    // The requesting client owns any session it creates (unless args name an owner explicitly).
+    const args = req.client && SESSION_CREATING_TOOLS.has(req.tool) ? { owner: req.client, ...req.args } : req.args ?? {};
+    const result = withRecoveryNotice(args, await sessionManager.busy(args.session, () => action(args)));
     return {
       id,
       ok: true,
@@ -203,8 +254,12 @@ async function shutdown(signal: string, server: net.Server): Promise<void> {
   }, 10_000);
   force.unref();
   server.close();
+  if (PERSIST) {
+    await persistSessions(true); // before destroyAll, while the browsers can still report their state
+  }
   try {
     await sessionManager.destroyAll();
+    await sessionManager.drainWarmPool();
   } catch {
     /* ignore */
   }
@@ -280,6 +335,23 @@ async function main(): Promise<void> {
   await fs.writeFile(PID_PATH, String(process.pid));
   log(`listening on ${SOCKET_PATH} (pid ${process.pid}, idle ${IDLE_MS}ms)`);
 
+  if (WARM_POOL > 0) {
+    sessionManager.configureWarmPool(WARM_POOL);
+    log(`warm pool: keeping ${WARM_POOL} headless chromium browser(s) ready`);
+  }
+
+  if (PERSIST) {
+    const saved = await readManifest();
+    sessionManager.addDormant(saved);
+    log(`persistence on: ${saved.length} saved session(s) restore on first use; saving every ${PERSIST_INTERVAL_MS}ms`);
+    setInterval(() => void persistSessions(), PERSIST_INTERVAL_MS).unref();
+  }
+
+  sessionManager.onExpire((name, reason) => {
+    log(`session '${name}' expired (${reason}); destroyed`);
+    evaluateIdle(); // the reaped session may have been the last thing holding the daemon
+  });
+
   process.on("SIGINT", () => void shutdown("SIGINT", server));
   process.on("SIGTERM", () => void shutdown("SIGTERM", server));
 
@@ -4,6 +4,9 @@ import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js"
 import { z } from "zod";
 import { sessionManager } from "../core/sessions.js";
 import * as actions from "../core/actions.js";
+import { ABORT_ERROR_CODES } from "../core/routes.js";
+import { BLOCKABLE_RESOURCE_TYPES } from "../core/blocking.js";
+import { HAR_CONTENT_MODES, HAR_NOT_FOUND_MODES } from "../core/har.js";
 import type { ActionResult } from "../core/types.js";
 
 const server = new McpServer({
@@ -38,14 +41,80 @@ function error(message: string) {
 }
 
 /** Run a core action and map success/throw to MCP success/error output. */
-async function wrap(fn: () => Promise<ActionResult>) {
+async function wrap(fn: () => Promise<ActionResult>, args: Record<string, unknown> = {}) {
   try {
-    return toMcp(await fn());
+    return toMcp(actions.withRecoveryNotice(args, await sessionManager.busy(args.session, fn)));
   } catch (e) {
     return error((e as Error).message);
   }
 }
 
+/** Name the connected MCP client reported at initialize; recorded as the owner of sessions it creates. */
+function clientName(): string | undefined {
+  return server.server.getClientVersion()?.name;
+}
+
+// Context emulation params shared by session_create and storage_load.
+const emulationParams = {
+  device: z.string().optional().describe("Device preset from Playwright's devices registry, e.g. 'iPhone 13', 'Pixel 7', 'Desktop Chrome'. Explicit emulation params override its fields"),
+  viewport: z.object({ width: z.number(), height: z.number() }).optional().describe("Viewport size in CSS pixels"),
+  deviceScaleFactor: z.number().optional().describe("Device pixel ratio, e.g. 2 for retina"),
+  isMobile: z.boolean().optional().describe("Emulate a mobile device (meta viewport, no scrollbars). Not supported on firefox"),
+  hasTouch: z.boolean().optional().describe("Enable touch events"),
+  userAgent: z.string().optional().describe("User-Agent string override"),
+  locale: z.string().optional().describe("Locale, e.g. 'de-DE' (navigator.language, Accept-Language, number/date formatting)"),
+  timezoneId: z.string().optional().describe("IANA timezone, e.g. 'Europe/Berlin'"),
+  colorScheme: z.enum(["light", "dark", "no-preference"]).optional().describe("prefers-color-scheme media feature"),
+  reducedMotion: z.enum(["reduce", "no-preference"]).optional().describe("prefers-reduced-motion media feature"),
+};
+
+// iframe chain for the touch gesture tools, same shape as the CLI's repeatable --frame.
+const frameParam = z
+  .array(z.string())
+  .optional()
+  .describe("iframe selector chain, outermost first, e.g. ['iframe#app']; the selector is resolved inside the innermost frame");
+
+// Proxy/auth/header params shared by session_create and storage_load.
+const networkParams = {
+  proxy: z
+    .object({
+      server: z.string().describe("Proxy URL, e.g. 'http://proxy.corp:3128' or 'socks5://127.0.0.1:1080'"),
+      bypass: z.string().optional().describe("Comma-separated hosts that skip the proxy, e.g. '.internal, localhost'"),
+      username: z.string().optional(),
+      password: z.string().optional(),
+    })
+    .optional()
+    .describe("Route the session's traffic through this proxy"),
+  httpCredentials: z
+    .object({
+      username: z.string(),
+      password: z.string(),
+      origin: z.string().optional().describe("Only send the credentials to this origin, e.g. 'https://staging.example.com'"),
+    })
+    .optional()
+    .describe("HTTP basic/digest auth credentials, answered automatically when a server asks"),
+  extraHTTPHeaders: z.record(z.string()).optional().describe("Headers added to every request, e.g. {\"X-Env\": \"staging\"}"),
+  ignoreHTTPSErrors: z.boolean().optional().describe("Accept invalid/self-signed TLS certificates"),
+};
+
+// Matcher and arm/collect params shared by browser_wait_for_request and _response.
+const networkWaitParams = {
+  session: z.string().describe("Session name"),
+  url: z.string().optional().describe("URL glob, e.g. '**/api/orders*', or a regex source with regex: true"),
+  regex: z.boolean().optional().describe("Treat url as a regular expression"),
+  method: z.string().optional().describe("Only this HTTP method, e.g. POST"),
+  timeout: z.number().default(30000).describe("Timeout in milliseconds"),
+  arm: z.boolean().optional().describe("Start listening and return a wait id at once; trigger the request, then call again with waitId"),
+  waitId: z.string().optional().describe("Collect a wait armed earlier, e.g. 'w1'"),
+};
+
+// What to block, shared by session_create's blockResources and browser_block.
+const blockParams = {
+  resourceTypes: z.array(z.enum(BLOCKABLE_RESOURCE_TYPES)).optional().describe("Resource types to block, e.g. [\"image\", \"font\", \"media\", \"stylesheet\"]"),
+  urls: z.array(z.string()).optional().describe("URL globs to block, e.g. [\"**/ads/**\"]"),
+  trackers: z.boolean().optional().describe("Block a built-in list of common ad and analytics hosts"),
+};
+
 // ---- Session management ----
 server.tool(
   "session_create",
@@ -55,6 +124,23 @@ server.tool(
     type: z.enum(["chromium", "firefox", "webkit", "camoufox", "electron", "tauri"]).default("chromium").describe("Browser type: chromium (default), firefox, webkit (Safari), camoufox (stealth Firefox), electron, or tauri (agent-backed Tauri app)"),
     headless: z.boolean().optional().describe("Run headless. Default: true for browser types that support it (electron/tauri open real app windows regardless)"),
     headed: z.boolean().optional().describe("Open a visible browser window (opt-in; overrides the headless default for any browser type)"),
+    userDataDir: z.string().optional().describe("chromium/firefox/webkit/camoufox: absolute path to a persistent profile directory. IndexedDB, service workers, cache and extension state survive across sessions that reuse it"),
+    cdpUrl: z.string().optional().describe("chromium only: attach to an already-running Chrome over CDP (e.g. http://localhost:9222) instead of launching one. Drives its existing context/page; session_destroy disconnects without killing it"),
+    wsEndpoint: z.string().optional().describe("chromium/firefox/webkit: attach to a Playwright browser server's wsEndpoint instead of launching one; session_destroy disconnects without killing it"),
+    ttlMs: z.number().optional().describe("Lease: destroy the session this many ms after creation, regardless of activity"),
+    idleTimeoutMs: z.number().optional().describe("Lease: destroy the session after this many ms without an action on it (every action, and session_touch, renews it)"),
+    pooled: z.boolean().optional().describe("chromium/firefox/webkit/camoufox: share one browser process per (type, headless) with other pooled sessions; this session gets its own isolated context. Saves memory and startup time with many concurrent sessions"),
+    extensions: z.array(z.string()).optional().describe("chromium only: absolute paths of unpacked extension directories to load. The session runs in a persistent context (a throwaway profile unless userDataDir is set); not combinable with pooled or attach. See browser_extensions"),
+    permissions: z.array(z.string()).optional().describe("Permissions granted from the start, e.g. [\"geolocation\", \"notifications\", \"clipboard-read\"] (see browser_permissions)"),
+    permissionsOrigin: z.string().optional().describe("Origin the permissions apply to, e.g. https://maps.example.com. Default: every origin"),
+    geolocation: z.object({ latitude: z.number().min(-90).max(90), longitude: z.number().min(-180).max(180), accuracy: z.number().min(0).optional() }).optional().describe("Emulated position from the start (see browser_set_geolocation)"),
+    replayHar: z.string().optional().describe("Absolute path of a HAR to answer requests from, for offline replay; requests not in it are aborted (see browser_route_from_har)"),
+    captureRealtime: z.boolean().optional().describe("Also log SSE messages and WebSocket close codes in browser_websockets (frames are logged regardless). Wraps the page's WebSocket/EventSource, which pages can detect; not for camoufox or attached sessions"),
+    blockResources: z.object(blockParams).optional().describe("Requests aborted before they leave the browser, to save time and bandwidth (see browser_block)"),
+    initScripts: z.array(z.string()).optional().describe("JavaScript sources registered up front as init scripts (see browser_add_init_script), in order"),
+    labels: z.record(z.string()).optional().describe("Key/value labels for finding the session later, e.g. {\"agent\": \"checkout\", \"env\": \"staging\"}. session_list can filter by them"),
+    description: z.string().optional().describe("Free-form note on what the session is for, shown in session_list"),
+    autoRecover: z.boolean().optional().describe("If the page crashes or the browser/app process dies, relaunch the session on its next action (same type and options, last storage state and URL) instead of failing. The next result notes the recovery"),
     electronArgs: z.array(z.string()).optional().describe("electron only: args passed to the Electron launch (default ['.']), e.g. the path to the target app"),
     executablePath: z.string().optional().describe("electron only: path to the Electron binary to launch (e.g. the target app's node_modules/.bin/electron). Selects WHICH Electron runs; if omitted, falls back to browserplex's dev-only bundled electron"),
     appPath: z.string().optional().describe("tauri only: path to the debug app binary to launch"),
@@ -65,15 +151,42 @@ server.tool(
     windowTitle: z.string().optional().describe("tauri only: window title hint for native screenshot lookup"),
     windowOwner: z.string().optional().describe("tauri only: process/window owner hint for native screenshot lookup"),
     startupTimeoutMs: z.number().optional().describe("tauri only: startup timeout waiting for automation hello"),
+    ...emulationParams,
+    ...networkParams,
   },
-  async (args) => wrap(() => actions.sessionCreate(args)),
+  async (args) => wrap(() => actions.sessionCreate({ ...args, owner: clientName() }), args),
 );
 
 server.tool(
   "session_list",
-  "List all active browser sessions",
-  {},
-  async () => wrap(() => actions.sessionList()),
+  "List active browser sessions with their labels, tab count, console/network buffer sizes, last activity and owning client. Optional filters narrow the list; all given filters must match",
+  {
+    labels: z.record(z.string()).optional().describe("Only sessions carrying all of these label key/values"),
+    type: z.enum(["chromium", "firefox", "webkit", "camoufox", "electron", "tauri"]).optional().describe("Only sessions of this browser type"),
+    url: z.string().optional().describe("Only sessions whose current URL contains this substring"),
+    olderThanMs: z.number().optional().describe("Only sessions created at least this many ms ago"),
+    newerThanMs: z.number().optional().describe("Only sessions created at most this many ms ago"),
+  },
+  async (args) => wrap(() => actions.sessionList(args), args),
+);
+
+server.tool(
+  "session_fork",
+  "Fork a live session into a new named session of the same type, seeded in memory with the source's cookies/localStorage, current URL, viewport and open tabs. Use it to try a risky action in a copy while keeping the original's logged-in state",
+  {
+    source: z.string().describe("Name of the session to fork"),
+    name: z.string().describe("Unique name for the new session"),
+  },
+  async (args) => wrap(() => actions.sessionFork({ ...args, owner: clientName() }), args),
+);
+
+server.tool(
+  "session_touch",
+  "Renew a session's idle lease without acting on it (keeps a session with idleTimeoutMs alive while you think)",
+  {
+    name: z.string().describe("Name of the session to renew"),
+  },
+  async (args) => wrap(() => actions.sessionTouch(args), args),
 );
 
 server.tool(
@@ -82,7 +195,7 @@ server.tool(
   {
     name: z.string().describe("Name of the session to destroy"),
   },
-  async (args) => wrap(() => actions.sessionDestroy(args)),
+  async (args) => wrap(() => actions.sessionDestroy(args), args),
 );
 
 // ---- Storage ----
@@ -94,7 +207,7 @@ server.tool(
     domain: z.string().describe("Domain to associate with this storage (e.g., 'linkedin.com')"),
     name: z.string().default("default").describe("Name for this stored session (e.g., 'work', 'personal')"),
   },
-  async (args) => wrap(() => actions.storageSave(args)),
+  async (args) => wrap(() => actions.storageSave(args), args),
 );
 
 server.tool(
@@ -107,8 +220,11 @@ server.tool(
     type: z.enum(["chromium", "firefox", "webkit", "camoufox"]).default("chromium").describe("Browser type"),
     headless: z.boolean().optional().describe("Run headless. Default: true for all browser types"),
     headed: z.boolean().optional().describe("Open a visible browser window (opt-in; overrides the headless default)"),
+    pooled: z.boolean().optional().describe("Share one browser process per (type, headless) with other pooled sessions"),
+    ...emulationParams,
+    ...networkParams,
   },
-  async (args) => wrap(() => actions.storageLoad(args)),
+  async (args) => wrap(() => actions.storageLoad({ ...args, owner: clientName() }), args),
 );
 
 server.tool(
@@ -117,7 +233,7 @@ server.tool(
   {
     domain: z.string().optional().describe("Filter by domain (optional)"),
   },
-  async (args) => wrap(() => actions.storageList(args)),
+  async (args) => wrap(() => actions.storageList(args), args),
 );
 
 server.tool(
@@ -127,7 +243,7 @@ server.tool(
     domain: z.string().describe("Domain of the stored session"),
     name: z.string().default("default").describe("Name of the stored session"),
   },
-  async (args) => wrap(() => actions.storageDelete(args)),
+  async (args) => wrap(() => actions.storageDelete(args), args),
 );
 
 server.tool(
@@ -136,7 +252,7 @@ server.tool(
   {
     domain: z.string().describe("Domain to lock"),
   },
-  async (args) => wrap(() => actions.storageLock(args)),
+  async (args) => wrap(() => actions.storageLock(args), args),
 );
 
 server.tool(
@@ -145,7 +261,7 @@ server.tool(
   {
     domain: z.string().describe("Domain to unlock"),
   },
-  async (args) => wrap(() => actions.storageUnlock(args)),
+  async (args) => wrap(() => actions.storageUnlock(args), args),
 );
 
 // ---- Navigation ----
@@ -156,7 +272,7 @@ server.tool(
     session: z.string().describe("Session name"),
     url: z.string().describe("URL to navigate to"),
   },
-  async (args) => wrap(() => actions.browserNavigate(args)),
+  async (args) => wrap(() => actions.browserNavigate(args), args),
 );
 
 server.tool(
@@ -165,7 +281,7 @@ server.tool(
   {
     session: z.string().describe("Session name"),
   },
-  async (args) => wrap(() => actions.browserNavigateBack(args)),
+  async (args) => wrap(() => actions.browserNavigateBack(args), args),
 );
 
 server.tool(
@@ -178,7 +294,7 @@ server.tool(
     maxDepth: z.number().optional().describe("Maximum tree depth (0 = root only)"),
     selector: z.string().optional().describe("CSS selector to scope the snapshot to a specific element"),
   },
-  async (args) => wrap(() => actions.browserSnapshot(args)),
+  async (args) => wrap(() => actions.browserSnapshot(args), args),
 );
 
 server.tool(
@@ -190,7 +306,7 @@ server.tool(
     maxDimension: z.number().default(1280).describe("Max width/height in pixels (default 1280, safe for LLM context)"),
     savePath: z.string().optional().describe("Absolute path to write the original (un-resized) PNG. Parent directory must already exist. When set, the response includes a text confirmation alongside the (resized) image."),
   },
-  async (args) => wrap(() => actions.browserTakeScreenshot(args)),
+  async (args) => wrap(() => actions.browserTakeScreenshot(args), args),
 );
 
 // ---- Interaction ----
@@ -202,7 +318,7 @@ server.tool(
     selector: z.string().describe("Element ref (@e1) or CSS selector to click"),
     timeout: z.number().default(5000).describe("Timeout in milliseconds"),
   },
-  async (args) => wrap(() => actions.browserClick(args)),
+  async (args) => wrap(() => actions.browserClick(args), args),
 );
 
 server.tool(
@@ -215,7 +331,7 @@ server.tool(
     submit: z.boolean().default(false).describe("Press Enter after typing"),
     timeout: z.number().default(5000).describe("Timeout in milliseconds"),
   },
-  async (args) => wrap(() => actions.browserType(args)),
+  async (args) => wrap(() => actions.browserType(args), args),
 );
 
 server.tool(
@@ -225,7 +341,7 @@ server.tool(
     session: z.string().describe("Session name"),
     key: z.string().describe("Key to press (e.g., Enter, Escape, ArrowDown)"),
   },
-  async (args) => wrap(() => actions.browserPressKey(args)),
+  async (args) => wrap(() => actions.browserPressKey(args), args),
 );
 
 server.tool(
@@ -236,7 +352,7 @@ server.tool(
     selector: z.string().describe("Element ref (@e1) or CSS selector to hover over"),
     timeout: z.number().default(5000).describe("Timeout in milliseconds"),
   },
-  async (args) => wrap(() => actions.browserHover(args)),
+  async (args) => wrap(() => actions.browserHover(args), args),
 );
 
 server.tool(
@@ -248,7 +364,48 @@ server.tool(
     targetSelector: z.string().describe("Element ref or CSS selector for drop target"),
     timeout: z.number().default(5000).describe("Timeout in milliseconds"),
   },
-  async (args) => wrap(() => actions.browserDrag(args)),
+  async (args) => wrap(() => actions.browserDrag(args), args),
+);
+
+server.tool(
+  "browser_tap",
+  "Tap an element with touch input (locator.tap). Needs a touch-enabled session: hasTouch or a mobile device preset at session_create",
+  {
+    session: z.string().describe("Session name"),
+    selector: z.string().describe("Element ref (@e1) or CSS selector to tap"),
+    timeout: z.number().default(5000).describe("Timeout in milliseconds"),
+    frame: frameParam,
+  },
+  async (args) => wrap(() => actions.browserTap(args), args),
+);
+
+server.tool(
+  "browser_swipe",
+  "One-finger swipe on an element or the viewport. direction is where the finger moves (up scrolls content down). On chromium it is real touch input over CDP, so the page scrolls natively; other engines (touch-enabled sessions only) get page touch events without native scrolling",
+  {
+    session: z.string().describe("Session name"),
+    direction: z.enum(["up", "down", "left", "right"]).describe("Direction the finger moves"),
+    selector: z.string().optional().describe("Element ref or CSS selector to swipe on. Default: the viewport (or the iframe, with frame)"),
+    distance: z.number().min(1).optional().describe("Distance the finger travels in CSS pixels. Default: 60% of the target"),
+    durationMs: z.number().min(0).default(300).describe("How long the swipe takes"),
+    timeout: z.number().default(5000).describe("Timeout in milliseconds"),
+    frame: frameParam,
+  },
+  async (args) => wrap(() => actions.browserSwipe(args), args),
+);
+
+server.tool(
+  "browser_pinch",
+  "Two-finger pinch on an element or the viewport, centered on it (chromium only, CDP touch input). scale above 1 spreads the fingers (zoom in), below 1 brings them together (zoom out)",
+  {
+    session: z.string().describe("Session name"),
+    scale: z.number().positive().describe("Final finger spread relative to the start, e.g. 2 to zoom in, 0.5 to zoom out"),
+    selector: z.string().optional().describe("Element ref or CSS selector to pinch on. Default: the viewport (or the iframe, with frame)"),
+    durationMs: z.number().min(0).default(400).describe("How long the pinch takes"),
+    timeout: z.number().default(5000).describe("Timeout in milliseconds"),
+    frame: frameParam,
+  },
+  async (args) => wrap(() => actions.browserPinch(args), args),
 );
 
 server.tool(
@@ -262,7 +419,7 @@ server.tool(
     index: z.number().optional().describe("Option index to select (0-based)"),
     timeout: z.number().default(5000).describe("Timeout in milliseconds"),
   },
-  async (args) => wrap(() => actions.browserSelectOption(args)),
+  async (args) => wrap(() => actions.browserSelectOption(args), args),
 );
 
 server.tool(
@@ -274,7 +431,7 @@ server.tool(
     files: z.array(z.string()).describe("Array of file paths to upload"),
     timeout: z.number().default(5000).describe("Timeout in milliseconds"),
   },
-  async (args) => wrap(() => actions.browserFileUpload(args)),
+  async (args) => wrap(() => actions.browserFileUpload(args), args),
 );
 
 server.tool(
@@ -288,7 +445,7 @@ server.tool(
     })).describe("Array of {selector, value} pairs"),
     timeout: z.number().default(5000).describe("Timeout in milliseconds"),
   },
-  async (args) => wrap(() => actions.browserFillForm(args)),
+  async (args) => wrap(() => actions.browserFillForm(args), args),
 );
 
 server.tool(
@@ -299,7 +456,7 @@ server.tool(
     action: z.enum(["accept", "dismiss"]).describe("Whether to accept or dismiss the dialog"),
     promptText: z.string().optional().describe("Text to enter for prompt dialogs"),
   },
-  async (args) => wrap(() => actions.browserHandleDialog(args)),
+  async (args) => wrap(() => actions.browserHandleDialog(args), args),
 );
 
 // ---- Utilities ----
@@ -312,7 +469,25 @@ server.tool(
     state: z.enum(["attached", "detached", "visible", "hidden"]).default("visible").describe("State to wait for"),
     timeout: z.number().default(30000).describe("Timeout in milliseconds"),
   },
-  async (args) => wrap(() => actions.browserWaitFor(args)),
+  async (args) => wrap(() => actions.browserWaitFor(args), args),
+);
+
+server.tool(
+  "browser_wait_for_request",
+  "Wait for the next request from any tab matching a URL glob/regex and method; returns its URL, method, headers and post data. To avoid missing a request fired by a click, arm the wait first (arm: true), click, then collect it with waitId",
+  networkWaitParams,
+  async (args) => wrap(() => actions.browserWaitForRequest(args), args),
+);
+
+server.tool(
+  "browser_wait_for_response",
+  "Wait for the next response in any tab matching a URL glob/regex, method and status; returns its status, headers and optionally the body. To avoid missing a fast response to a click, arm the wait first (arm: true), click, then collect it with waitId",
+  {
+    ...networkWaitParams,
+    status: z.number().int().optional().describe("Only a response with this status; others keep the wait going"),
+    body: z.boolean().optional().describe("Include the body: parsed when JSON, otherwise text (first 64 KB)"),
+  },
+  async (args) => wrap(() => actions.browserWaitForResponse(args), args),
 );
 
 server.tool(
@@ -322,7 +497,7 @@ server.tool(
     session: z.string().describe("Session name"),
     script: z.string().describe("JavaScript code to execute"),
   },
-  async (args) => wrap(() => actions.browserEvaluate(args)),
+  async (args) => wrap(() => actions.browserEvaluate(args), args),
 );
 
 server.tool(
@@ -332,7 +507,47 @@ server.tool(
     session: z.string().describe("Session name (must be an electron session)"),
     script: z.string().describe("JavaScript body; receives the Electron module as `electron`"),
   },
-  async (args) => wrap(() => actions.electronEvaluate(args)),
+  async (args) => wrap(() => actions.electronEvaluate(args), args),
+);
+
+server.tool(
+  "browser_add_init_script",
+  "Register JavaScript that runs before any page script on every navigation (and in new tabs) of this session — e.g. stub window.fetch, set feature flags, disable animations. Does not run in the already-loaded document; navigate or reload to apply it. Forks and auto-recovered sessions get it too",
+  {
+    session: z.string().describe("Session name"),
+    script: z.string().describe("JavaScript source, evaluated as a classic script in every new document"),
+  },
+  async (args) => wrap(() => actions.browserAddInitScript(args), args),
+);
+
+server.tool(
+  "browser_list_init_scripts",
+  "List the init scripts registered on a session, with their ids",
+  {
+    session: z.string().describe("Session name"),
+  },
+  async (args) => wrap(() => actions.browserListInitScripts(args), args),
+);
+
+server.tool(
+  "browser_remove_init_script",
+  "Remove an init script from a session's registry so forks and recoveries no longer get it. Playwright cannot unregister it from the live context, so it keeps running there until the session is recreated",
+  {
+    session: z.string().describe("Session name"),
+    id: z.string().describe("Init script id from browser_list_init_scripts, e.g. 'i1'"),
+  },
+  async (args) => wrap(() => actions.browserRemoveInitScript(args), args),
+);
+
+server.tool(
+  "browser_extensions",
+  "Extensions loaded into a chromium session (created with extensions). list: ids, names, versions and their running service worker / background page URLs. popup / options: open that extension page from its manifest in a new tab and make it the active tab",
+  {
+    session: z.string().describe("Session name"),
+    action: z.enum(["list", "popup", "options"]).optional().describe("list (default), popup or options"),
+    id: z.string().optional().describe("popup/options: extension id from list; may be omitted when the session loads one extension"),
+  },
+  async (args) => wrap(() => actions.browserExtensions(args), args),
 );
 
 server.tool(
@@ -343,27 +558,208 @@ server.tool(
     width: z.number().describe("Viewport width in pixels"),
     height: z.number().describe("Viewport height in pixels"),
   },
-  async (args) => wrap(() => actions.browserResize(args)),
+  async (args) => wrap(() => actions.browserResize(args), args),
+);
+
+server.tool(
+  "browser_set_headers",
+  "Replace the extra HTTP headers sent with every request of a live session (pass {} to clear them)",
+  {
+    session: z.string().describe("Session name"),
+    headers: z.record(z.string()).describe("Header name → value, e.g. {\"Authorization\": \"Bearer …\"}"),
+  },
+  async (args) => wrap(() => actions.browserSetHeaders(args), args),
+);
+
+server.tool(
+  "browser_permissions",
+  "Answer permission prompts ahead of time: grant permissions (geolocation, notifications, clipboard-read, clipboard-write, camera, microphone, midi, …) for one origin or every origin, clear them, or list what is granted. Grants carry over to forks, recoveries and restored sessions",
+  {
+    session: z.string().describe("Session name"),
+    action: z.enum(["grant", "clear", "list"]).optional().describe("grant, clear, or list (default)"),
+    permissions: z.array(z.string()).optional().describe("grant: permission names"),
+    origin: z.string().optional().describe("grant/clear: origin, e.g. https://maps.example.com. Omit for every origin (clear without it drops all grants)"),
+  },
+  async (args) => wrap(() => actions.browserPermissions(args), args),
+);
+
+server.tool(
+  "browser_network_conditions",
+  "Emulate a slow or missing network. offline works on every engine; latency, throughput and CPU throttling need chromium (CDP). Presets: slow-3g, fast-3g, offline; explicit fields override the preset. Each call replaces the previous conditions; call with no conditions to see the current ones, or reset to clear them. New tabs, forks and recovered sessions get the same conditions",
+  {
+    session: z.string().describe("Session name"),
+    preset: z.enum(["slow-3g", "fast-3g", "offline"]).optional().describe("Named conditions to start from"),
+    offline: z.boolean().optional().describe("Fail every request as if the network were down"),
+    latencyMs: z.number().min(0).optional().describe("chromium: added round-trip latency in ms"),
+    downloadKbps: z.number().min(0).optional().describe("chromium: download cap in kilobits per second"),
+    uploadKbps: z.number().min(0).optional().describe("chromium: upload cap in kilobits per second"),
+    cpuThrottlingRate: z.number().min(1).optional().describe("chromium: CPU slowdown factor, e.g. 4"),
+    reset: z.boolean().optional().describe("Drop all emulated conditions"),
+  },
+  async (args) => wrap(() => actions.browserNetworkConditions(args), args),
+);
+
+server.tool(
+  "browser_route",
+  "Intercept requests in every tab of the session whose URL matches a glob (or a regex with regex: true), optionally only one method. fulfill answers with a mocked response, abort fails the request with an error code, continue sends it on with replaced headers or post data; delayMs holds the request first. The newest matching route runs first. Routes carry over to new tabs, forks and recovered sessions",
+  {
+    session: z.string().describe("Session name"),
+    url: z.string().describe("URL glob, e.g. '**/api/users*', or a regex source with regex: true"),
+    regex: z.boolean().optional().describe("Treat url as a regular expression"),
+    method: z.string().optional().describe("Only requests with this HTTP method, e.g. POST"),
+    action: z.enum(["fulfill", "abort", "continue"]).describe("What to do with a matching request"),
+    status: z.number().int().optional().describe("fulfill: status code (default 200)"),
+    headers: z.record(z.string()).optional().describe("fulfill: response headers"),
+    contentType: z.string().optional().describe("fulfill: Content-Type, e.g. application/json"),
+    body: z.string().optional().describe("fulfill: response body"),
+    bodyFile: z.string().optional().describe("fulfill: absolute path of a file to serve as the body instead"),
+    errorCode: z.enum(ABORT_ERROR_CODES).optional().describe("abort: network error (default failed)"),
+    setHeaders: z.record(z.string()).optional().describe("continue: request headers to add or override"),
+    postData: z.string().optional().describe("continue: replacement request body"),
+    delayMs: z.number().min(0).optional().describe("Hold each matching request this long first"),
+  },
+  async (args) => wrap(() => actions.browserRoute(args), args),
+);
+
+server.tool(
+  "browser_unroute",
+  "Remove a route added with browser_route, or all of them",
+  {
+    session: z.string().describe("Session name"),
+    id: z.string().optional().describe("Route id from browser_routes, e.g. 'r1'"),
+    all: z.boolean().optional().describe("Remove every route"),
+  },
+  async (args) => wrap(() => actions.browserUnroute(args), args),
+);
+
+server.tool(
+  "browser_routes",
+  "List a session's routes, newest (first tried) first, with how many requests each has handled",
+  {
+    session: z.string().describe("Session name"),
+  },
+  async (args) => wrap(() => actions.browserRoutes(args), args),
+);
+
+server.tool(
+  "browser_block",
+  "Block resource types, URL globs and/or common ad/analytics hosts in every tab (added to what is already blocked), and report blocked counts. No args: just report. Blocking runs before every browser_route and HAR replay, so a route cannot let a blocked request through. Blocked requests show in browser_network_requests as blocked",
+  {
+    session: z.string().describe("Session name"),
+    ...blockParams,
+    clear: z.boolean().optional().describe("Drop everything blocked so far first; alone, stops blocking"),
+  },
+  async (args) => wrap(() => actions.browserBlock(args), args),
+);
+
+server.tool(
+  "browser_har_start",
+  "Record every request of the session (all tabs) into a HAR file, written by browser_har_stop or when the session is destroyed",
+  {
+    session: z.string().describe("Session name"),
+    path: z.string().describe("Absolute path of the .har file to write"),
+    content: z.enum(HAR_CONTENT_MODES).optional().describe("Response bodies: embed in the HAR (default) or omit"),
+    urlFilter: z.string().optional().describe("Only record requests whose URL matches this glob"),
+  },
+  async (args) => wrap(() => actions.browserHarStart(args), args),
+);
+
+server.tool(
+  "browser_har_stop",
+  "Stop the session's HAR recording and write the file",
+  {
+    session: z.string().describe("Session name"),
+  },
+  async (args) => wrap(() => actions.browserHarStop(args), args),
+);
+
+server.tool(
+  "browser_route_from_har",
+  "Answer the session's requests from a recorded HAR (e.g. one written by browser_har_stop), so a flow replays without the network. Routes added later with browser_route take precedence. Carries over to forks and recovered sessions",
+  {
+    session: z.string().describe("Session name"),
+    path: z.string().describe("Absolute path of the .har file"),
+    url: z.string().optional().describe("Only serve requests whose URL matches this glob from the HAR"),
+    notFound: z.enum(HAR_NOT_FOUND_MODES).optional().describe("Requests missing from the HAR: abort (default) or send them to the network"),
+  },
+  async (args) => wrap(() => actions.browserRouteFromHar(args), args),
+);
+
+server.tool(
+  "browser_set_geolocation",
+  "Set the position a live session reports to navigator.geolocation, or clear it. Pages also need the geolocation permission (browser_permissions grant)",
+  {
+    session: z.string().describe("Session name"),
+    latitude: z.number().min(-90).max(90).optional().describe("Latitude, -90 to 90"),
+    longitude: z.number().min(-180).max(180).optional().describe("Longitude, -180 to 180"),
+    accuracy: z.number().min(0).optional().describe("Accuracy in meters"),
+    clear: z.boolean().optional().describe("Stop emulating a position"),
+  },
+  async (args) => wrap(() => actions.browserSetGeolocation(args), args),
 );
 
 server.tool(
   "browser_console_messages",
-  "Get console messages from the page",
+  "Get console messages from every tab of the session (popups and new tabs included), each tagged with its tab id and a sequence number. Filters narrow the result; afterSeq returns only messages newer than the last seq seen, so several readers can follow the log without clearing it",
   {
     session: z.string().describe("Session name"),
-    clear: z.boolean().default(false).describe("Clear messages after retrieving"),
+    clear: z.boolean().default(false).describe("Clear the returned messages after retrieving"),
+    tab: z.string().optional().describe("Only messages from this tab id, e.g. 't2' (see browser_tabs)"),
+    levels: z.array(z.string()).optional().describe("Only these types, e.g. [\"error\", \"warning\"]"),
+    pattern: z.string().optional().describe("Regular expression the message text must match"),
+    url: z.string().optional().describe("URL glob the tab's page URL must match"),
+    since: z.number().optional().describe("Only messages logged at or after this time (epoch ms)"),
+    afterSeq: z.number().int().optional().describe("Only messages with a higher seq than this"),
   },
-  async (args) => wrap(() => actions.browserConsoleMessages(args)),
+  async (args) => wrap(() => actions.browserConsoleMessages(args), args),
 );
 
 server.tool(
   "browser_network_requests",
-  "Get network requests made by the page",
+  "Get network requests made by every tab of the session (popups and new tabs included): id, tab, method, URL, status or failure, resource type and duration. Filters narrow the result; afterSeq returns only requests newer than the last seq seen, without clearing. Structured data adds request/response headers, post data, timing and redirect chains; browser_network_request shows one entry with its response body",
+  {
+    session: z.string().describe("Session name"),
+    clear: z.boolean().default(false).describe("Clear the returned requests after retrieving"),
+    tab: z.string().optional().describe("Only requests from this tab id, e.g. 't2' (see browser_tabs)"),
+    pattern: z.string().optional().describe("Regular expression the request URL must match"),
+    url: z.string().optional().describe("URL glob the request URL must match, e.g. '**/api/**'"),
+    method: z.string().optional().describe("Only this HTTP method"),
+    statusMin: z.number().int().optional().describe("Lowest status to include, e.g. 400"),
+    statusMax: z.number().int().optional().describe("Highest status to include, e.g. 599"),
+    resourceTypes: z.array(z.string()).optional().describe("Only these resource types, e.g. [\"fetch\", \"xhr\"]"),
+    since: z.number().optional().describe("Only requests made at or after this time (epoch ms)"),
+    afterSeq: z.number().int().optional().describe("Only requests with a higher seq (the number in the id) than this"),
+  },
+  async (args) => wrap(() => actions.browserNetworkRequests(args), args),
+);
+
+server.tool(
+  "browser_network_request",
+  "Show one network log entry in full: request and response headers, post data, redirect chain, failure, and the response body (text, or base64 for binary types), cut to maxBytes",
+  {
+    session: z.string().describe("Session name"),
+    id: z.string().describe("Request id from browser_network_requests, e.g. 'n12'"),
+    maxBytes: z.number().int().min(0).optional().describe("Most response body bytes to return (default 65536)"),
+  },
+  async (args) => wrap(() => actions.browserNetworkRequest(args), args),
+);
+
+server.tool(
+  "browser_websockets",
+  "Get WebSocket and EventSource (SSE) traffic from every tab: connections opening and closing (with close codes), frames sent and received with size and a payload cut to 1 KB, SSE messages, and errors. Same filters and afterSeq cursor as browser_network_requests",
   {
     session: z.string().describe("Session name"),
-    clear: z.boolean().default(false).describe("Clear requests after retrieving"),
+    clear: z.boolean().default(false).describe("Clear the returned events after retrieving"),
+    tab: z.string().optional().describe("Only events from this tab id, e.g. 't2'"),
+    connectionId: z.string().optional().describe("Only this connection, e.g. 'ws2' or 'sse1'"),
+    protocol: z.enum(["websocket", "sse"]).optional().describe("Only WebSocket or only SSE traffic"),
+    types: z.array(z.enum(["open", "sent", "received", "close", "error"])).optional().describe("Only these event types, e.g. [\"sent\", \"received\"] for frames"),
+    pattern: z.string().optional().describe("Regular expression the payload must match"),
+    url: z.string().optional().describe("URL glob the connection URL must match"),
+    since: z.number().optional().describe("Only events at or after this time (epoch ms)"),
+    afterSeq: z.number().int().optional().describe("Only events with a higher seq than this"),
   },
-  async (args) => wrap(() => actions.browserNetworkRequests(args)),
+  async (args) => wrap(() => actions.browserWebsockets(args), args),
 );
 
 server.tool(
@@ -373,7 +769,7 @@ server.tool(
     session: z.string().describe("Session name"),
     clear: z.boolean().default(false).describe("Clear captured download records after retrieving"),
   },
-  async (args) => wrap(() => actions.browserDownloads(args)),
+  async (args) => wrap(() => actions.browserDownloads(args), args),
 );
 
 server.tool(
@@ -384,19 +780,22 @@ server.tool(
     id: z.string().optional().describe("Download id from browser_downloads, e.g. d1. Defaults to latest."),
     savePath: z.string().describe("Absolute path to write the downloaded file"),
   },
-  async (args) => wrap(() => actions.browserSaveDownload(args)),
+  async (args) => wrap(() => actions.browserSaveDownload(args), args),
 );
 
 server.tool(
   "browser_tabs",
-  "List or switch between tabs/pages in a session",
+  "List, open, switch or close tabs/pages in a session. Tabs have stable ids (t1, t2, …) that never shift when another tab closes; list shows id, title, URL, opener and which tab is active. wait_new blocks until a popup or new tab opens (e.g. after clicking a target=_blank link) — a tab opened since the last wait_new counts, so call it after the click",
   {
     session: z.string().describe("Session name"),
-    action: z.enum(["list", "new", "switch", "close"]).default("list").describe("Action to perform"),
-    index: z.number().optional().describe("Tab index for switch/close actions (0-based)"),
+    action: z.enum(["list", "new", "switch", "close", "wait_new"]).default("list").describe("Action to perform"),
+    id: z.string().optional().describe("Tab id for switch/close, e.g. 't2' (preferred over index)"),
+    index: z.number().optional().describe("Tab index for switch/close actions (0-based; shifts when tabs close)"),
     url: z.string().optional().describe("URL to open in new tab"),
+    switch: z.boolean().optional().describe("wait_new: make the new tab the active one"),
+    timeout: z.number().optional().describe("wait_new: max ms to wait for a new tab (default 30000)"),
   },
-  async (args) => wrap(() => actions.browserTabs(args)),
+  async (args) => wrap(() => actions.browserTabs(args), args),
 );
 
 // Cleanup on exit